@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+/**
+ * Manage the API keys in the file-backed key store. Only a SHA-256 hash of
+ * each key is stored, so a new key is printed once and never again.
+ *
+ *   node scripts/api-keys.cjs create --name <name> [--rate 10/0.5] [--daily-requests N]
+ *        [--daily-bytes N] [--formats webp,avif] [--max-file-size N]
+ *   node scripts/api-keys.cjs list
+ *   node scripts/api-keys.cjs revoke <id>
+ *
+ * Keys live in API_KEYS_FILE, or data/api-keys.json by default. The server
+ * picks up changes within a few seconds.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const FORMATS = ['webp', 'avif', 'jpeg', 'png', 'jxl'];
+
+function parseArgs(argv) {
+  const args = { command: argv[0], positional: [], file: process.env.API_KEYS_FILE || path.join(process.cwd(), 'data', 'api-keys.json') };
+  for (let i = 1; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--file': args.file = value; i++; break;
+      case '--name': args.name = value; i++; break;
+      case '--rate': args.rate = value; i++; break;
+      case '--daily-requests': args.dailyRequests = Number(value); i++; break;
+      case '--daily-bytes': args.dailyBytes = Number(value); i++; break;
+      case '--formats': args.formats = value.split(',').map(format => format.trim()); i++; break;
+      case '--max-file-size': args.maxFileSize = Number(value); i++; break;
+      default: args.positional.push(argv[i]);
+    }
+  }
+  return args;
+}
+
+function readKeys(file) {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')).keys || [];
+  } catch (err) {
+    if (err.code === 'ENOENT') return [];
+    throw err;
+  }
+}
+
+function writeKeys(file, keys) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, `${JSON.stringify({ keys }, null, 2)}\n`, { mode: 0o600 });
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+function positiveNumber(value, flag) {
+  if (value === undefined) return undefined;
+  if (!(value > 0)) throw new Error(`${flag} must be a positive number`);
+  return value;
+}
+
+function create(args) {
+  if (!args.name) throw new Error('--name is required');
+
+  const record = { id: `key_${crypto.randomBytes(4).toString('hex')}`, name: args.name };
+  const secret = `pp_${crypto.randomBytes(24).toString('base64url')}`;
+  record.keyHash = crypto.createHash('sha256').update(secret).digest('hex');
+
+  if (args.rate) {
+    const [capacity, refillPerSecond] = args.rate.split('/').map(Number);
+    record.rateLimit = {
+      capacity: positiveNumber(capacity, '--rate capacity'),
+      refillPerSecond: positiveNumber(refillPerSecond, '--rate refill'),
+    };
+  }
+  record.dailyRequests = positiveNumber(args.dailyRequests, '--daily-requests');
+  record.dailyBytes = positiveNumber(args.dailyBytes, '--daily-bytes');
+  record.maxFileSize = positiveNumber(args.maxFileSize, '--max-file-size');
+  if (args.formats) {
+    const unknown = args.formats.filter(format => !FORMATS.includes(format));
+    if (unknown.length > 0) throw new Error(`Unknown formats: ${unknown.join(', ')}`);
+    record.allowedFormats = args.formats;
+  }
+
+  writeKeys(args.file, [...readKeys(args.file), record]);
+  console.log(`Created ${record.id} (${record.name}) in ${args.file}`);
+  console.log(`API key: ${secret}`);
+}
+
+function list(args) {
+  const keys = readKeys(args.file);
+  if (keys.length === 0) {
+    console.log(`No keys in ${args.file}`);
+    return;
+  }
+  for (const key of keys) {
+    const limits = [
+      key.rateLimit && `rate ${key.rateLimit.capacity}/${key.rateLimit.refillPerSecond}s`,
+      key.dailyRequests && `${key.dailyRequests} requests/day`,
+      key.dailyBytes && `${key.dailyBytes} bytes/day`,
+      key.allowedFormats && `formats ${key.allowedFormats.join(',')}`,
+      key.maxFileSize && `max file ${key.maxFileSize} bytes`,
+    ].filter(Boolean);
+    console.log(`${key.id}  ${key.name || ''}${key.disabled ? '  [revoked]' : ''}${limits.length ? `  (${limits.join(', ')})` : ''}`);
+  }
+}
+
+function revoke(args) {
+  const id = args.positional[0];
+  const keys = readKeys(args.file);
+  const key = keys.find(candidate => candidate.id === id);
+  if (!key) throw new Error(`No key ${id} in ${args.file}`);
+  key.disabled = true;
+  writeKeys(args.file, keys);
+  console.log(`Revoked ${id}`);
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const commands = { create, list, revoke };
+  if (!commands[args.command]) {
+    console.error('Usage: node scripts/api-keys.cjs <create|list|revoke> [options]');
+    process.exit(1);
+  }
+
+  try {
+    commands[args.command](args);
+  } catch (err) {
+    console.error(err.message);
+    process.exit(1);
+  }
+}
+
+main();
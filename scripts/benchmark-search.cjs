@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+/**
+ * Search benchmark: compresses every image in a directory to a range of
+ * budgets and reports the encodes spent (the X-Iterations header) and how
+ * often the target was met.
+ *
+ *   node scripts/benchmark-search.cjs <dir> [--format webp] [--mode balanced] [--bpp 0.5,1,2] [--tolerance bytes]
+ *
+ * Budgets are given in bits per pixel of each image. Heuristics come from
+ * the complexity formula only, so runs are comparable across commits.
+ */
+
+const fs = require('fs');
+const path = require('path');
+require('./register-ts.cjs');
+
+const lib = path.join(__dirname, '..', 'src', 'lib');
+const { logger, LogLevel } = require(path.join(lib, 'logger.ts'));
+const { ImageEncoder } = require(path.join(lib, 'encoder.ts'));
+const { ImageFeatureExtractor } = require(path.join(lib, 'features.ts'));
+const { AdaptiveHeuristicsEngine } = require(path.join(lib, 'heuristics.ts'));
+const { ParallelCompressor } = require(path.join(lib, 'compressor.ts'));
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.avif', '.tif', '.tiff', '.gif']);
+
+function parseArgs(argv) {
+  const args = { dir: null, format: 'webp', mode: 'balanced', bpp: [0.5, 1, 2], tolerance: undefined };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--format') args.format = argv[++i];
+    else if (argv[i] === '--mode') args.mode = argv[++i];
+    else if (argv[i] === '--bpp') args.bpp = argv[++i].split(',').map(Number);
+    else if (argv[i] === '--tolerance') args.tolerance = Number(argv[++i]);
+    else args.dir = argv[i];
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.dir || args.bpp.some(bpp => !(bpp > 0)) || (args.tolerance !== undefined && !(args.tolerance >= 0))) {
+    console.error('Usage: node scripts/benchmark-search.cjs <dir> [--format webp] [--mode balanced|exact] [--bpp 0.5,1,2] [--tolerance bytes]');
+    process.exit(1);
+  }
+
+  logger.setLevel(LogLevel.WARN);
+  const encoder = new ImageEncoder();
+  const extractor = new ImageFeatureExtractor();
+  const heuristicsEngine = new AdaptiveHeuristicsEngine();
+
+  const files = fs.readdirSync(args.dir)
+    .filter(file => IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase()))
+    .sort();
+
+  const runs = [];
+  console.log('image                            bpp  target  iters  quality    size  hit    ms');
+  for (const file of files) {
+    const input = fs.readFileSync(path.join(args.dir, file));
+    const metadata = await encoder.extractMetadata(input);
+    metadata.features = await extractor.extract(input);
+
+    for (const bpp of args.bpp) {
+      const targetBytes = Math.round((bpp * metadata.width * metadata.height) / 8);
+      const heuristics = heuristicsEngine.generateHeuristics(metadata);
+      const compressor = new ParallelCompressor(args.mode, heuristics, { targetBytes, tolerance: args.tolerance });
+
+      try {
+        const result = await compressor.compress(input, args.format);
+        const hit = Math.abs(result.size - targetBytes) <= result.tolerance;
+        runs.push({ iterations: result.iterations, hit, time: result.processingTime });
+        console.log(
+          `${file.slice(0, 30).padEnd(30)} ${String(bpp).padStart(5)} ${String(targetBytes).padStart(7)} ` +
+          `${String(result.iterations).padStart(6)} ${String(result.quality).padStart(8)} ${String(result.size).padStart(7)} ` +
+          `${(hit ? 'yes' : 'no').padEnd(4)} ${String(result.processingTime).padStart(5)}`
+        );
+      } catch (error) {
+        console.log(`${file.slice(0, 30).padEnd(30)} ${String(bpp).padStart(5)} ${String(targetBytes).padStart(7)}  failed: ${error.message}`);
+      }
+    }
+  }
+
+  if (runs.length === 0) {
+    console.log('No runs completed.');
+    return;
+  }
+
+  const mean = values => values.reduce((sum, value) => sum + value, 0) / values.length;
+  console.log('');
+  console.log(`runs: ${runs.length}`);
+  console.log(`mean iterations: ${mean(runs.map(run => run.iterations)).toFixed(2)}`);
+  console.log(`target hit rate: ${(100 * mean(runs.map(run => (run.hit ? 1 : 0)))).toFixed(1)}%`);
+  console.log(`mean time: ${mean(runs.map(run => run.time)).toFixed(0)} ms`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+/**
+ * Memory limit check: compresses the bundled 2400x3600 sample photo, or the
+ * same photo resized to --size, under the default memoryLimitPerJob and exits
+ * non-zero if the encode pool refuses it.
+ *
+ *   node scripts/check-memory-limit.cjs [--format webp] [--bpp 0.5] [--size 6000x5000]
+ */
+
+const fs = require('fs');
+const path = require('path');
+require('./register-ts.cjs');
+
+const lib = path.join(__dirname, '..', 'src', 'lib');
+const SAMPLE = path.join(__dirname, '..', 'public', 'merve-kalafat-yilmaz-7B3TPCkHhYw-unsplash.jpg');
+
+function parseArgs(argv) {
+  const args = { format: 'webp', bpp: 0.5 };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--format') args.format = argv[++i];
+    else if (argv[i] === '--bpp') args.bpp = Number(argv[++i]);
+    else if (argv[i] === '--size') args.size = argv[++i].split('x').map(Number);
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!(args.bpp > 0) || (args.size && !(args.size.length === 2 && args.size.every(n => n > 0)))) {
+    console.error('Usage: node scripts/check-memory-limit.cjs [--format webp] [--bpp 0.5] [--size 6000x5000]');
+    process.exit(1);
+  }
+
+  const { logger, LogLevel } = require(path.join(lib, 'logger.ts'));
+  const { COMPRESSION_CONFIG } = require(path.join(lib, 'config.ts'));
+  const { ImageEncoder } = require(path.join(lib, 'encoder.ts'));
+  const { AdaptiveHeuristicsEngine } = require(path.join(lib, 'heuristics.ts'));
+  const { ParallelCompressor } = require(path.join(lib, 'compressor.ts'));
+  const { encodePool } = require(path.join(lib, 'encode-pool.ts'));
+  logger.setLevel(LogLevel.WARN);
+
+  const sharp = require('sharp');
+  const input = args.size
+    ? await sharp(SAMPLE).resize(args.size[0], args.size[1], { fit: 'cover' }).jpeg({ quality: 90 }).toBuffer()
+    : fs.readFileSync(SAMPLE);
+  const metadata = await new ImageEncoder().extractMetadata(input);
+  const targetBytes = Math.round((args.bpp * metadata.width * metadata.height) / 8);
+  const heuristics = new AdaptiveHeuristicsEngine().generateHeuristics(metadata);
+  const compressor = new ParallelCompressor('balanced', heuristics, { targetBytes });
+  const limitMB = Math.round(COMPRESSION_CONFIG.memoryLimitPerJob / (1024 * 1024));
+
+  try {
+    const result = await compressor.compress(input, args.format);
+    const peakMB = Math.round(encodePool.getStats().peakJobMemory / (1024 * 1024));
+    console.log(
+      `ok: ${metadata.width}x${metadata.height} to ${args.format} in ${result.size} bytes, ` +
+      `${result.iterations} encodes, peak job memory ~${peakMB}MB of ${limitMB}MB`
+    );
+  } catch (error) {
+    console.error(`failed: ${metadata.width}x${metadata.height} to ${args.format} under ${limitMB}MB: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+/**
+ * Offline training and evaluation for the learned quality model.
+ *
+ *   node scripts/quality-model.cjs train   Refit on every recorded sample and save the model
+ *   node scripts/quality-model.cjs eval    Score a model trained on older samples against the newest ones
+ *
+ * Reads the same store as the server (QUALITY_MODEL_DIR, or <tmpdir>/pixelpress-quality).
+ */
+
+const path = require('path');
+require('./register-ts.cjs');
+
+const lib = path.join(__dirname, '..', 'src', 'lib');
+const { QualityRegression, qualityPredictor } = require(path.join(lib, 'quality-model.ts'));
+const { AdaptiveHeuristicsEngine } = require(path.join(lib, 'heuristics.ts'));
+
+function formatError(error) {
+  return error ? `${error.meanAbsoluteError.toFixed(2).padStart(6)} ${error.rootMeanSquareError.toFixed(2).padStart(6)}` : '     -      -';
+}
+
+async function train() {
+  const model = await qualityPredictor.refit();
+  const formats = Object.entries(model.formats);
+  if (formats.length === 0) {
+    console.log('No format has enough samples to fit yet.');
+    return;
+  }
+
+  console.log('format  samples  train MAE');
+  for (const [format, formatModel] of formats) {
+    console.log(`${format.padEnd(7)} ${String(formatModel.samples).padStart(7)}  ${formatModel.meanAbsoluteError.toFixed(2).padStart(9)}`);
+  }
+}
+
+async function evaluate() {
+  const samples = await qualityPredictor.samples();
+  if (samples.length === 0) {
+    console.log('No samples recorded yet.');
+    return;
+  }
+
+  // The formula the heuristics fall back to while the model is cold
+  const formula = new AdaptiveHeuristicsEngine();
+  const baseline = sample => formula.estimateStartingQuality({
+    width: sample.inputWidth,
+    height: sample.inputHeight,
+    size: sample.inputSize,
+    format: 'unknown',
+    channels: sample.channels,
+    hasAlpha: sample.hasAlpha,
+    complexity: 0,
+    colorSpace: 'srgb',
+    bitDepth: 8,
+    features: sample.features,
+  });
+
+  console.log('format  train  test   model MAE/RMSE  formula MAE/RMSE');
+  for (const result of QualityRegression.evaluate(samples, baseline)) {
+    console.log(
+      `${result.format.padEnd(7)} ${String(result.train).padStart(5)} ${String(result.test).padStart(5)}   ` +
+      `${formatError(result.model)}    ${formatError(result.baseline)}`
+    );
+  }
+}
+
+const commands = { train, eval: evaluate };
+const command = commands[process.argv[2]];
+if (!command) {
+  console.error('Usage: node scripts/quality-model.cjs <train|eval>');
+  process.exit(1);
+}
+
+command().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,142 @@
+#!/usr/bin/env node
+/**
+ * In-memory stand-in for a Redis server, speaking just enough of the
+ * protocol for the redis cache backend: PING, AUTH, SELECT, GET, SET (with
+ * PX/EX), DEL, SCAN, DBSIZE and FLUSHDB.
+ *
+ *   node scripts/redis-standin.cjs [--port 6379]
+ *
+ * Then run the app with CACHE_BACKEND=redis CACHE_REDIS_URL=redis://127.0.0.1:<port>.
+ */
+
+const net = require('net');
+
+function parseArgs(argv) {
+  const args = { port: 6379 };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--port') args.port = Number(argv[++i]);
+  }
+  return args;
+}
+
+// key -> { value: Buffer, expiresAt: number | null }
+const store = new Map();
+
+function lookup(key) {
+  const entry = store.get(key);
+  if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+    store.delete(key);
+    return null;
+  }
+  return entry || null;
+}
+
+function globToRegExp(pattern) {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+const simple = text => Buffer.from(`+${text}\r\n`);
+const error = text => Buffer.from(`-ERR ${text}\r\n`);
+const integer = n => Buffer.from(`:${n}\r\n`);
+const bulk = data => data === null
+  ? Buffer.from('$-1\r\n')
+  : Buffer.concat([Buffer.from(`$${data.length}\r\n`), data, Buffer.from('\r\n')]);
+const array = items => Buffer.concat([Buffer.from(`*${items.length}\r\n`), ...items]);
+
+function execute([name, ...args]) {
+  switch (name.toString().toUpperCase()) {
+    case 'PING':
+      return simple('PONG');
+    case 'AUTH':
+    case 'SELECT':
+      return simple('OK');
+    case 'GET': {
+      const entry = lookup(args[0].toString());
+      return bulk(entry ? entry.value : null);
+    }
+    case 'SET': {
+      let expiresAt = null;
+      for (let i = 2; i < args.length; i++) {
+        const option = args[i].toString().toUpperCase();
+        if (option === 'PX') expiresAt = Date.now() + Number(args[++i]);
+        else if (option === 'EX') expiresAt = Date.now() + Number(args[++i]) * 1000;
+        else return error(`unsupported SET option ${option}`);
+      }
+      store.set(args[0].toString(), { value: Buffer.from(args[1]), expiresAt });
+      return simple('OK');
+    }
+    case 'DEL':
+      return integer(args.filter(key => lookup(key.toString()) && store.delete(key.toString())).length);
+    case 'SCAN': {
+      // Everything in one page, so the cursor is always 0
+      let match = null;
+      for (let i = 1; i < args.length; i++) {
+        if (args[i].toString().toUpperCase() === 'MATCH') match = globToRegExp(args[++i].toString());
+        else i++;
+      }
+      const keys = Array.from(store.keys()).filter(key => lookup(key) && (!match || match.test(key)));
+      return array([bulk(Buffer.from('0')), array(keys.map(key => bulk(Buffer.from(key))))]);
+    }
+    case 'DBSIZE':
+      return integer(Array.from(store.keys()).filter(lookup).length);
+    case 'FLUSHDB':
+      store.clear();
+      return simple('OK');
+    default:
+      return error(`unknown command '${name}'`);
+  }
+}
+
+/**
+ * Parse one request array at offset, or return null while it is incomplete
+ */
+function parseRequest(buffer, offset) {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+  if (buffer[offset] !== 0x2a) throw new Error('Expected a request array');
+
+  const count = Number(buffer.toString('utf8', offset + 1, lineEnd));
+  const args = [];
+  let position = lineEnd + 2;
+  for (let i = 0; i < count; i++) {
+    const headerEnd = buffer.indexOf('\r\n', position);
+    if (headerEnd === -1) return null;
+    const length = Number(buffer.toString('utf8', position + 1, headerEnd));
+    if (buffer.length < headerEnd + 2 + length + 2) return null;
+    args.push(buffer.subarray(headerEnd + 2, headerEnd + 2 + length));
+    position = headerEnd + 2 + length + 2;
+  }
+  return { args, end: position };
+}
+
+function main() {
+  const { port } = parseArgs(process.argv.slice(2));
+  if (!(port > 0)) {
+    console.error('Usage: node scripts/redis-standin.cjs [--port 6379]');
+    process.exit(1);
+  }
+
+  const server = net.createServer(socket => {
+    let received = Buffer.alloc(0);
+    socket.on('data', data => {
+      received = Buffer.concat([received, data]);
+      try {
+        let request;
+        while ((request = parseRequest(received, 0))) {
+          received = received.subarray(request.end);
+          socket.write(execute(request.args));
+        }
+      } catch (err) {
+        socket.end(error(err.message));
+      }
+    });
+    socket.on('error', () => undefined);
+  });
+
+  server.listen(port, '127.0.0.1', () => {
+    console.log(`Redis stand-in listening on 127.0.0.1:${port}`);
+  });
+}
+
+main();
@@ -0,0 +1,192 @@
+/**
+ * Batch compression endpoint streaming a ZIP archive with a JSON manifest
+ */
+
+import { NextRequest } from 'next/server';
+import { OutputFormat, CompressionMode, BatchManifestEntry } from '@/lib/types';
+import { BATCH_CONFIG } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { ImageEncoder } from '@/lib/encoder';
+import { CompressionPipeline } from '@/lib/pipeline';
+import { ZipWriter } from '@/lib/zip';
+import { ResourceManager, RequestValidator, ResponseBuilder, FilenameGenerator } from '@/lib/api';
+import { apiKeyGuard } from '@/lib/auth';
+
+/**
+ * Main POST handler
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const log = logger.child({ requestId, context: 'BATCH' });
+
+  log.info('Batch compression request started');
+
+  // API key and rate limit, checked before the body is read
+  const access = await apiKeyGuard.authorize(request);
+  if (!access.allowed) {
+    log.warn(`API key check failed: ${access.error}`, access.key ? { apiKey: access.key.id } : undefined);
+    return ResponseBuilder.buildApiKeyErrorResponse(access);
+  }
+
+  if (!ResourceManager.canProcessRequest()) {
+    log.warn('Server busy, rejecting batch request');
+    return ResponseBuilder.buildErrorResponse('Server busy. Please try again later.', 503);
+  }
+
+  // Parse request
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch (error) {
+    log.warn(`Request body could not be parsed: ${error}`);
+    return ResponseBuilder.buildErrorResponse('Expected a multipart form body', 400);
+  }
+  const files = formData.getAll('images').filter((entry): entry is File => entry instanceof File);
+  const format = formData.get('format') as OutputFormat;
+  const mode = (formData.get('mode') as CompressionMode) || 'balanced';
+  const maxFileSize = apiKeyGuard.maxFileSize(access.key);
+
+  // Validate request
+  const validation = RequestValidator.validateBatchRequest(files, format, maxFileSize);
+  if (!validation.isValid) {
+    log.warn(`Batch validation failed: ${validation.error}`);
+    return ResponseBuilder.buildErrorResponse(validation.error!, 400);
+  }
+
+  const optionsValidation = RequestValidator.validateOptions(formData, mode);
+  if (!optionsValidation.isValid) {
+    log.warn(`Options validation failed: ${optionsValidation.error}`);
+    return ResponseBuilder.buildErrorResponse(optionsValidation.error!, 400);
+  }
+  const options = optionsValidation.options!;
+
+  // Per-key formats and daily quotas
+  const admission = await apiKeyGuard.admitUpload(access.key!, [format], files.reduce((sum, file) => sum + file.size, 0));
+  if (!admission.allowed) {
+    log.warn(`API key check failed: ${admission.error}`, { apiKey: access.key!.id });
+    return ResponseBuilder.buildApiKeyErrorResponse(admission);
+  }
+
+  const zip = new ZipWriter();
+  const usedFilenames = new Set<string>();
+  let cancelled = false;
+  request.signal.addEventListener('abort', () => {
+    cancelled = true;
+  });
+
+  /**
+   * Compress one file under a job slot, returning its manifest entry
+   */
+  const compressFile = async (
+    file: File,
+    controller: ReadableStreamDefaultController<Uint8Array>
+  ): Promise<BatchManifestEntry> => {
+    await ResourceManager.acquireJob();
+
+    try {
+      const inputBuffer = Buffer.from(await file.arrayBuffer());
+      await new ImageEncoder().validateImage(inputBuffer, maxFileSize);
+
+      // Abandon the work if the client disconnects
+      const { result } = await CompressionPipeline.run(inputBuffer, format, mode, { ...options, requestId, signal: request.signal });
+
+      let filename = FilenameGenerator.generate(file.name, format, result, mode);
+      for (let suffix = 2; usedFilenames.has(filename); suffix++) {
+        filename = filename.replace(/(-\d+)?\.([a-z0-9]+)$/, `-${suffix}.$2`);
+      }
+      usedFilenames.add(filename);
+
+      if (!cancelled) {
+        controller.enqueue(zip.addFile(filename, result.buffer));
+      }
+
+      return {
+        source: file.name,
+        filename,
+        status: 'ok',
+        quality: result.quality,
+        size: result.size,
+        exactMatch: result.exactMatch,
+        exactStrategy: result.exactStrategy,
+        scaleFactor: result.scaleFactor ?? 1,
+        ssim: result.ssim,
+        ssimFloorLimited: result.ssimFloorLimited,
+        iterations: result.iterations,
+        processingTime: result.processingTime,
+      };
+    } catch (error) {
+      if (!request.signal.aborted) {
+        log.warn(`Batch item failed: ${file.name}`, error);
+      }
+      return {
+        source: file.name,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Compression failed',
+      };
+    } finally {
+      ResourceManager.endJob();
+    }
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const manifest: BatchManifestEntry[] = new Array(files.length);
+      let nextIndex = 0;
+
+      // Each worker pulls the next file until the batch is drained
+      const worker = async () => {
+        while (!cancelled && nextIndex < files.length) {
+          const index = nextIndex++;
+          manifest[index] = await compressFile(files[index], controller);
+        }
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.min(BATCH_CONFIG.concurrency, files.length) }, worker)
+      );
+
+      // Only files that made it into the archive count towards the quota
+      const unused = files.filter((_, index) => manifest[index]?.status !== 'ok');
+      await apiKeyGuard.refund(admission.charge, {
+        requests: unused.length === files.length ? 1 : 0,
+        bytes: unused.reduce((sum, file) => sum + file.size, 0),
+      });
+
+      if (cancelled) {
+        log.warn('Batch cancelled by client');
+        // Already closed if the stream itself was cancelled
+        try {
+          controller.close();
+        } catch {
+          // Nothing left to close
+        }
+        return;
+      }
+
+      const succeeded = manifest.filter(entry => entry.status === 'ok').length;
+      const manifestJson = JSON.stringify({
+        format,
+        mode,
+        targetBytes: options.targetBytes,
+        tolerance: options.tolerance,
+        minSSIM: options.minSSIM,
+        resize: options.resize,
+        metadata: options.metadata,
+        colorSpace: options.colorSpace,
+        files: manifest,
+      }, null, 2);
+
+      controller.enqueue(zip.addFile('manifest.json', Buffer.from(manifestJson)));
+      controller.enqueue(zip.finish());
+      controller.close();
+
+      log.info(`Batch completed in ${Date.now() - startTime}ms: ${succeeded}/${files.length} files compressed`);
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return ResponseBuilder.buildZipResponse(stream, `pixelpress-batch-${Date.now()}.zip`, files.length);
+}
@@ -4,204 +4,104 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { OutputFormat, CompressionMode } from '@/lib/types';
-import { COMPRESSION_CONFIG, SUPPORTED_OUTPUT_FORMATS, ALLOWED_INPUT_TYPES, CACHE_CONFIG } from '@/lib/config';
+import { COMPRESSION_CONFIG, CACHE_CONFIG } from '@/lib/config';
 import { logger } from '@/lib/logger';
 import { compressionCache } from '@/lib/cache';
-import { AdaptiveHeuristicsEngine } from '@/lib/heuristics';
 import { ImageEncoder } from '@/lib/encoder';
-import { ParallelCompressor } from '@/lib/compressor';
-
-// Resource management
-let activeJobs = 0;
-let totalJobsProcessed = 0;
+import { CompressionPipeline } from '@/lib/pipeline';
+import { ResourceManager, RequestValidator, ResponseBuilder, FilenameGenerator } from '@/lib/api';
+import { apiKeyGuard } from '@/lib/auth';
 
 /**
- * Resource management and rate limiting
+ * Main POST handler
  */
-class ResourceManager {
-  static canProcessRequest(): boolean {
-    return activeJobs < COMPRESSION_CONFIG.maxConcurrentJobs;
-  }
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const log = logger.child({ requestId, context: 'API' });
 
-  static startJob(): void {
-    activeJobs++;
-    totalJobsProcessed++;
-  }
+  log.info('Compression request started');
 
-  static endJob(): void {
-    activeJobs--;
+  // API key and rate limit, checked before the body is read
+  const access = await apiKeyGuard.authorize(request);
+  if (!access.allowed) {
+    log.warn(`API key check failed: ${access.error}`, access.key ? { apiKey: access.key.id } : undefined);
+    return ResponseBuilder.buildApiKeyErrorResponse(access);
   }
 
-  static getStats() {
-    return {
-      activeJobs,
-      totalJobsProcessed,
-      maxConcurrentJobs: COMPRESSION_CONFIG.maxConcurrentJobs,
-    };
+  // Parse request
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch (error) {
+    log.warn(`Request body could not be parsed: ${error}`);
+    return ResponseBuilder.buildErrorResponse('Expected a multipart form body', 400);
   }
-}
-
-/**
- * Request validation
- */
-class RequestValidator {
-  static validateRequest(file: File | null, format: string | null): { isValid: boolean; error?: string } {
-    if (!file) {
-      return { isValid: false, error: 'No image file provided' };
-    }
-
-    if (!SUPPORTED_OUTPUT_FORMATS.includes(format as OutputFormat)) {
-      return { isValid: false, error: 'Unsupported output format' };
-    }
-
-    if (!ALLOWED_INPUT_TYPES.includes(file.type as any)) {
-      return { isValid: false, error: 'Unsupported file type' };
-    }
-
-    if (file.size > COMPRESSION_CONFIG.maxFileSize) {
-      return { isValid: false, error: 'File too large' };
-    }
-
-    return { isValid: true };
+  const file = formData.get('image') as File;
+  const format = formData.get('format') as OutputFormat;
+  const mode = (formData.get('mode') as CompressionMode) || 'balanced';
+  const maxFileSize = apiKeyGuard.maxFileSize(access.key);
+
+  // Validate request
+  const validation = RequestValidator.validateRequest(file, format, maxFileSize);
+  if (!validation.isValid) {
+    log.warn(`Request validation failed: ${validation.error}`);
+    return ResponseBuilder.buildErrorResponse(validation.error!, 400);
   }
-}
 
-/**
- * Response builder
- */
-class ResponseBuilder {
-  static buildSuccessResponse(
-    result: any,
-    inputSize: number,
-    filename: string,
-    format: OutputFormat
-  ): NextResponse {
-    const headers = new Headers();
-    headers.set('Content-Type', `image/${format}`);
-    headers.set('Content-Length', result.buffer.length.toString());
-    headers.set('X-Exact-Match', result.exactMatch ? '1' : '0');
-    headers.set('X-Result-Bytes', result.size.toString());
-    headers.set('X-Compression-Quality', result.quality.toString());
-    headers.set('X-Iterations', result.iterations.toString());
-    headers.set('X-Processing-Time', result.processingTime.toString());
-    headers.set('X-Mode', result.mode);
-    headers.set('X-Compression-Ratio', (inputSize / result.size).toFixed(2));
-    headers.set('X-Scale-Factor', result.scaleFactor?.toString() || '1');
-    headers.set('X-Palette-Reduced', result.paletteReduced ? '1' : '0');
-    headers.set('X-Parallel-Tests', result.parallelTests?.toString() || '0');
-    headers.set('X-Cache-Hit', '0');
-    headers.set('Content-Disposition', `attachment; filename="${filename}"`);
-
-    return new NextResponse(result.buffer as BodyInit, { headers });
+  const optionsValidation = RequestValidator.validateOptions(formData, mode);
+  if (!optionsValidation.isValid) {
+    log.warn(`Options validation failed: ${optionsValidation.error}`);
+    return ResponseBuilder.buildErrorResponse(optionsValidation.error!, 400);
   }
+  const options = optionsValidation.options!;
 
-  static buildCachedResponse(
-    buffer: Buffer,
-    format: OutputFormat,
-    filename: string
-  ): NextResponse {
-    const headers = new Headers();
-    headers.set('Content-Type', `image/${format}`);
-    headers.set('Content-Length', buffer.length.toString());
-    headers.set('X-Cache-Hit', '1');
-    headers.set('X-Processing-Time', '0');
-    headers.set('Content-Disposition', `attachment; filename="${filename}"`);
+  const inputBuffer = Buffer.from(await file!.arrayBuffer());
+  const encoder = new ImageEncoder();
 
-    return new NextResponse(buffer as BodyInit, { headers });
-  }
-
-  static buildErrorResponse(error: string, status: number = 500): NextResponse {
-    return NextResponse.json({ error }, { status });
-  }
-}
-
-/**
- * Filename generator
- */
-class FilenameGenerator {
-  static generate(
-    originalName: string,
-    format: OutputFormat,
-    result: any,
-    mode: CompressionMode
-  ): string {
-    const sanitizedName = originalName
-      .toLowerCase()
-      .replace(/[^a-z0-9-]/g, '-')
-      .replace(/-+/g, '-')
-      .replace(/^-|-$/g, '');
-
-    return `exact80--${sanitizedName}--${format}--${result.size}B--w${result.dimensions.width}h${result.dimensions.height}--q${result.quality}--m${mode.toUpperCase()}.${format}`;
+  // Validate image
+  try {
+    await encoder.validateImage(inputBuffer, maxFileSize);
+  } catch (error) {
+    log.warn(`Image validation failed: ${error}`);
+    return ResponseBuilder.buildErrorResponse(error instanceof Error ? error.message : 'Invalid image', 400);
   }
-}
-
-/**
- * Main POST handler
- */
-export async function POST(request: NextRequest) {
-  const startTime = Date.now();
-  const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-  logger.info('Compression request started', null, requestId, 'API');
-
-  // Resource management
+  // Resource management, before anything is charged to the key
   if (!ResourceManager.canProcessRequest()) {
-    logger.warn('Server busy, rejecting request', null, requestId, 'API');
+    log.warn('Server busy, rejecting request');
     return ResponseBuilder.buildErrorResponse('Server busy. Please try again later.', 503);
   }
 
+  // Per-key formats and daily quotas
+  const admission = await apiKeyGuard.admitUpload(access.key!, [format], inputBuffer.length);
+  if (!admission.allowed) {
+    log.warn(`API key check failed: ${admission.error}`, { apiKey: access.key!.id });
+    return ResponseBuilder.buildApiKeyErrorResponse(admission);
+  }
+
   ResourceManager.startJob();
 
   try {
-    // Parse request
-    const formData = await request.formData();
-    const file = formData.get('image') as File;
-    const format = formData.get('format') as OutputFormat;
-    const mode = (formData.get('mode') as CompressionMode) || 'balanced';
-
-    // Validate request
-    const validation = RequestValidator.validateRequest(file, format);
-    if (!validation.isValid) {
-      logger.warn(`Request validation failed: ${validation.error}`, null, requestId, 'API');
-      return ResponseBuilder.buildErrorResponse(validation.error!, 400);
-    }
-
-    const inputBuffer = Buffer.from(await file!.arrayBuffer());
-    const encoder = new ImageEncoder();
-
-    // Validate image
-    try {
-      encoder.validateImage(inputBuffer, COMPRESSION_CONFIG.maxFileSize);
-    } catch (error) {
-      logger.warn(`Image validation failed: ${error}`, null, requestId, 'API');
-      return ResponseBuilder.buildErrorResponse(error instanceof Error ? error.message : 'Invalid image', 400);
-    }
-
     // Check cache
-    const cacheKey = compressionCache.generateKey(inputBuffer, format!, mode);
-    const cachedResult = compressionCache.get(cacheKey);
+    const cacheKey = compressionCache.generateKey(inputBuffer, format!, mode, options);
+    const cachedResult = await compressionCache.get(cacheKey);
     
     if (cachedResult) {
-      logger.info('Cache hit', null, requestId, 'API');
-      const filename = FilenameGenerator.generate(file!.name, format!, { size: cachedResult.length }, mode);
-      return ResponseBuilder.buildCachedResponse(cachedResult, format!, filename);
+      log.info('Cache hit');
+      const filename = FilenameGenerator.generate(file!.name, format!, cachedResult, mode);
+      return ResponseBuilder.buildSuccessResponse(cachedResult, inputBuffer.length, filename, format!);
     }
 
-    // Extract metadata and generate heuristics
-    const metadata = await encoder.extractMetadata(inputBuffer);
-    const heuristicsEngine = new AdaptiveHeuristicsEngine();
-    const heuristics = heuristicsEngine.generateHeuristics(metadata);
+    // Compress image, abandoning the work if the client disconnects
+    const { result } = await CompressionPipeline.run(inputBuffer, format!, mode, { ...options, requestId, signal: request.signal });
 
-    // Compress image
-    const compressor = new ParallelCompressor(mode, heuristics);
-    const result = await compressor.compress(inputBuffer, format!);
-
-    // Cache the result
-    compressionCache.set(cacheKey, result.buffer);
+    // Cache the result without holding up the response
+    void compressionCache.set(cacheKey, result);
 
     // Cleanup cache periodically
-    if (totalJobsProcessed % CACHE_CONFIG.cleanupInterval === 0) {
-      compressionCache.cleanup();
+    if (ResourceManager.getStats().totalJobsProcessed % CACHE_CONFIG.cleanupInterval === 0) {
+      void compressionCache.cleanup();
     }
 
     // Generate filename and response
@@ -209,20 +109,30 @@ export async function POST(request: NextRequest) {
     const response = ResponseBuilder.buildSuccessResponse(result, inputBuffer.length, filename, format!);
 
     const processingTime = Date.now() - startTime;
-    logger.info(`Compression completed successfully in ${processingTime}ms`, {
+    log.info(`Compression completed successfully in ${processingTime}ms`, {
       inputSize: inputBuffer.length,
       outputSize: result.size,
       compressionRatio: (inputBuffer.length / result.size).toFixed(2),
       quality: result.quality,
       iterations: result.iterations,
       exactMatch: result.exactMatch,
-    }, requestId, 'API');
+    });
 
     return response;
     
   } catch (error) {
     const processingTime = Date.now() - startTime;
-    logger.error(`Compression failed after ${processingTime}ms`, error, requestId, 'API');
+
+    // Failed requests don't count towards the key's quota
+    await apiKeyGuard.refund(admission.charge);
+
+    // Nobody is waiting for the response, so just record the cancellation
+    if (request.signal.aborted) {
+      log.warn(`Compression cancelled by client after ${processingTime}ms`);
+      return ResponseBuilder.buildErrorResponse('Request cancelled', 499);
+    }
+
+    log.error(`Compression failed after ${processingTime}ms`, error);
 
     // Check if it's a timeout error
     if (processingTime > COMPRESSION_CONFIG.maxWallTimeExact) {
@@ -250,7 +160,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
     },
   });
 }
\ No newline at end of file
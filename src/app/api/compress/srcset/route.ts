@@ -0,0 +1,244 @@
+/**
+ * Responsive srcset endpoint: compresses one image at several widths in each
+ * srcset format and streams the variants, a <picture> snippet and a manifest as a ZIP
+ */
+
+import { NextRequest } from 'next/server';
+import { CompressionMode, SrcsetVariant } from '@/lib/types';
+import { COMPRESSION_CONFIG, SRCSET_CONFIG } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { ImageEncoder } from '@/lib/encoder';
+import { CompressionPipeline } from '@/lib/pipeline';
+import { PictureMarkupBuilder } from '@/lib/srcset';
+import { ZipWriter } from '@/lib/zip';
+import { ResourceManager, RequestValidator, ResponseBuilder, FilenameGenerator } from '@/lib/api';
+import { apiKeyGuard } from '@/lib/auth';
+
+/**
+ * Main POST handler
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const log = logger.child({ requestId, context: 'SRCSET' });
+
+  log.info('Srcset request started');
+
+  // API key and rate limit, checked before the body is read
+  const access = await apiKeyGuard.authorize(request);
+  if (!access.allowed) {
+    log.warn(`API key check failed: ${access.error}`, access.key ? { apiKey: access.key.id } : undefined);
+    return ResponseBuilder.buildApiKeyErrorResponse(access);
+  }
+
+  if (!ResourceManager.canProcessRequest()) {
+    log.warn('Server busy, rejecting srcset request');
+    return ResponseBuilder.buildErrorResponse('Server busy. Please try again later.', 503);
+  }
+
+  // Parse request
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch (error) {
+    log.warn(`Request body could not be parsed: ${error}`);
+    return ResponseBuilder.buildErrorResponse('Expected a multipart form body', 400);
+  }
+  const file = formData.get('image') as File | null;
+  const mode = (formData.get('mode') as CompressionMode) || 'balanced';
+  const sizes = (formData.get('sizes') as string | null) || SRCSET_CONFIG.defaultSizes;
+  const alt = (formData.get('alt') as string | null) ?? '';
+  const maxFileSize = apiKeyGuard.maxFileSize(access.key);
+
+  // Validate request
+  for (const format of SRCSET_CONFIG.formats) {
+    const validation = RequestValidator.validateRequest(file, format, maxFileSize);
+    if (!validation.isValid) {
+      log.warn(`Srcset validation failed: ${validation.error}`);
+      return ResponseBuilder.buildErrorResponse(validation.error!, 400);
+    }
+  }
+
+  const srcsetValidation = RequestValidator.validateSrcsetRequest(
+    formData.get('widths') as string | null,
+    formData.get('budgets') as string | null
+  );
+  if (!srcsetValidation.isValid) {
+    log.warn(`Srcset validation failed: ${srcsetValidation.error}`);
+    return ResponseBuilder.buildErrorResponse(srcsetValidation.error!, 400);
+  }
+
+  const optionsValidation = RequestValidator.validateOptions(formData, mode);
+  if (!optionsValidation.isValid) {
+    log.warn(`Options validation failed: ${optionsValidation.error}`);
+    return ResponseBuilder.buildErrorResponse(optionsValidation.error!, 400);
+  }
+
+  // Each variant's geometry comes from widths, so the resize fields don't apply
+  if (optionsValidation.options!.resize) {
+    log.warn('Srcset validation failed: resize options given');
+    return ResponseBuilder.buildErrorResponse('Resize options are not supported for srcset; use widths instead', 400);
+  }
+  const { tolerance, minSSIM, metadata, colorSpace } = optionsValidation.options!;
+  const hasTarget = Boolean(formData.get('targetBytes') || formData.get('targetKB'));
+  const targetBytes = hasTarget ? optionsValidation.options!.targetBytes : undefined;
+
+  const inputBuffer = Buffer.from(await file!.arrayBuffer());
+  const encoder = new ImageEncoder();
+  try {
+    await encoder.validateImage(inputBuffer, maxFileSize);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid image';
+    log.warn(`Image validation failed: ${message}`);
+    return ResponseBuilder.buildErrorResponse(message, 400);
+  }
+
+  // The <img> fallback needs a format every browser decodes, keeping
+  // transparency when the source has it
+  const { hasAlpha } = await encoder.extractMetadata(inputBuffer);
+  const fallbackFormat = hasAlpha ? SRCSET_CONFIG.alphaFallbackFormat : SRCSET_CONFIG.fallbackFormat;
+  const formats = [...SRCSET_CONFIG.formats, fallbackFormat];
+
+  // Plan one variant per width and format. Widths beyond the source are
+  // skipped rather than upscaled; budgets default to a bytes-per-pixel rate.
+  const variants: SrcsetVariant[] = [];
+  const widths = srcsetValidation.widths!;
+  for (let i = 0; i < widths.length; i++) {
+    const resize = { width: widths[i], fit: 'inside' as const, gravity: 'center' as const };
+    const dimensions = (await encoder.computeOutputSize(inputBuffer, 1, resize))!;
+    const budget = srcsetValidation.budgets?.[i]
+      ?? targetBytes
+      ?? Math.max(COMPRESSION_CONFIG.minTargetBytes, Math.round(dimensions.width * dimensions.height * SRCSET_CONFIG.defaultBytesPerPixel));
+
+    for (const format of formats) {
+      variants.push(dimensions.width < widths[i]
+        ? { width: widths[i], format, targetBytes: budget, status: 'skipped', error: `Wider than the source (${dimensions.width}px)` }
+        : { width: widths[i], format, targetBytes: budget, status: 'ok' });
+    }
+  }
+
+  const pending = variants.filter(variant => variant.status === 'ok');
+  if (pending.length === 0) {
+    return ResponseBuilder.buildErrorResponse('Every requested width is wider than the source image', 400);
+  }
+
+  // Per-key formats and daily quotas
+  const admission = await apiKeyGuard.admitUpload(access.key!, formats, inputBuffer.length);
+  if (!admission.allowed) {
+    log.warn(`API key check failed: ${admission.error}`, { apiKey: access.key!.id });
+    return ResponseBuilder.buildApiKeyErrorResponse(admission);
+  }
+
+  const zip = new ZipWriter();
+  let cancelled = false;
+  request.signal.addEventListener('abort', () => {
+    cancelled = true;
+  });
+
+  /**
+   * Compress one variant under a job slot, filling in its manifest entry
+   */
+  const compressVariant = async (
+    variant: SrcsetVariant,
+    controller: ReadableStreamDefaultController<Uint8Array>
+  ): Promise<void> => {
+    await ResourceManager.acquireJob();
+
+    try {
+      const { result } = await CompressionPipeline.run(inputBuffer, variant.format, mode, {
+        targetBytes: variant.targetBytes,
+        tolerance,
+        minSSIM,
+        resize: { width: variant.width, fit: 'inside', gravity: 'center' },
+        metadata,
+        colorSpace,
+        requestId,
+        signal: request.signal,
+      });
+
+      const filename = FilenameGenerator.generate(file!.name, variant.format, result, mode);
+      if (!cancelled) {
+        controller.enqueue(zip.addFile(filename, result.buffer));
+      }
+
+      Object.assign(variant, {
+        filename,
+        size: result.size,
+        dimensions: result.dimensions,
+        quality: result.quality,
+        exactMatch: result.exactMatch,
+        ssim: result.ssim,
+        processingTime: result.processingTime,
+      });
+    } catch (error) {
+      if (!request.signal.aborted) {
+        log.warn(`Srcset variant failed: ${variant.format} at ${variant.width}w`, error);
+      }
+      variant.status = 'error';
+      variant.error = error instanceof Error ? error.message : 'Compression failed';
+    } finally {
+      ResourceManager.endJob();
+    }
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let nextIndex = 0;
+
+      // Each worker pulls the next variant until all are done
+      const worker = async () => {
+        while (!cancelled && nextIndex < pending.length) {
+          await compressVariant(pending[nextIndex++], controller);
+        }
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.min(SRCSET_CONFIG.concurrency, pending.length) }, worker)
+      );
+
+      // Nothing to show for the request, so it doesn't count towards the quota
+      const succeeded = variants.filter(variant => variant.status === 'ok' && variant.filename).length;
+      if (succeeded === 0) {
+        await apiKeyGuard.refund(admission.charge);
+      }
+
+      if (cancelled) {
+        log.warn('Srcset cancelled by client');
+        // Already closed if the stream itself was cancelled
+        try {
+          controller.close();
+        } catch {
+          // Nothing left to close
+        }
+        return;
+      }
+
+      if (succeeded > 0) {
+        const markup = PictureMarkupBuilder.build(variants, sizes, alt, fallbackFormat);
+        controller.enqueue(zip.addFile('picture.html', Buffer.from(markup)));
+      }
+
+      const manifestJson = JSON.stringify({
+        source: file!.name,
+        mode,
+        tolerance,
+        minSSIM,
+        metadata,
+        colorSpace,
+        sizes,
+        variants,
+      }, null, 2);
+
+      controller.enqueue(zip.addFile('manifest.json', Buffer.from(manifestJson)));
+      controller.enqueue(zip.finish());
+      controller.close();
+
+      log.info(`Srcset completed in ${Date.now() - startTime}ms: ${succeeded}/${variants.length} variants compressed`);
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return ResponseBuilder.buildZipResponse(stream, `pixelpress-srcset-${Date.now()}.zip`, pending.length);
+}
@@ -0,0 +1,13 @@
+/**
+ * Liveness endpoint: answers as long as the process can serve requests
+ */
+
+import { NextResponse } from 'next/server';
+import { HealthCheck } from '@/lib/health';
+
+/**
+ * Main GET handler
+ */
+export async function GET() {
+  return NextResponse.json(HealthCheck.liveness(), { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,77 @@
+/**
+ * Server-sent progress events for a compression job
+ */
+
+import { NextRequest } from 'next/server';
+import { CompressionJob } from '@/lib/types';
+import { JOB_CONFIG } from '@/lib/config';
+import { jobQueue } from '@/lib/jobs';
+import { ResponseBuilder } from '@/lib/api';
+import { apiKeyGuard } from '@/lib/auth';
+
+const encoder = new TextEncoder();
+
+function isFinished(job: CompressionJob): boolean {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+/**
+ * Main GET handler
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Jobs are only visible to the API key that submitted them
+  const access = await apiKeyGuard.identify(request);
+  if (!access.allowed) {
+    return ResponseBuilder.buildApiKeyErrorResponse(access);
+  }
+
+  const { id } = await params;
+  const job = await jobQueue.get(id, access.key!.id);
+
+  if (!job) {
+    return ResponseBuilder.buildErrorResponse('Job not found', 404);
+  }
+
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let lastUpdate = 0;
+
+      const send = (current: CompressionJob) => {
+        // Skip anything older than what the client already has
+        if (closed || current.updatedAt < lastUpdate) return;
+        lastUpdate = current.updatedAt;
+
+        controller.enqueue(encoder.encode(`event: ${current.status}\ndata: ${JSON.stringify(ResponseBuilder.publicJob(current))}\n\n`));
+        if (isFinished(current)) {
+          cleanup();
+          controller.close();
+        }
+      };
+
+      const unsubscribe = jobQueue.subscribe(id, send);
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, JOB_CONFIG.eventHeartbeatInterval);
+
+      cleanup = () => {
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        request.signal.removeEventListener('abort', cleanup);
+      };
+      request.signal.addEventListener('abort', cleanup);
+
+      // Replay the current state, fetched after subscribing so a job that
+      // finishes in between is never missed
+      send((await jobQueue.get(id)) || job);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return ResponseBuilder.buildEventStreamResponse(stream);
+}
@@ -0,0 +1,46 @@
+/**
+ * Compression job result endpoint
+ */
+
+import { NextRequest } from 'next/server';
+import { jobQueue } from '@/lib/jobs';
+import { ResponseBuilder } from '@/lib/api';
+import { apiKeyGuard } from '@/lib/auth';
+
+/**
+ * Main GET handler
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Jobs are only visible to the API key that submitted them
+  const access = await apiKeyGuard.identify(request);
+  if (!access.allowed) {
+    return ResponseBuilder.buildApiKeyErrorResponse(access);
+  }
+
+  const { id } = await params;
+  const job = await jobQueue.get(id, access.key!.id);
+
+  if (!job) {
+    return ResponseBuilder.buildErrorResponse('Job not found', 404);
+  }
+
+  if (job.status === 'failed') {
+    return ResponseBuilder.buildErrorResponse(job.error || 'Compression failed', 422);
+  }
+
+  if (job.status !== 'completed' || !job.result) {
+    return ResponseBuilder.buildErrorResponse(`Job is ${job.status}`, 409);
+  }
+
+  const buffer = await jobQueue.getResult(id);
+  if (!buffer) {
+    return ResponseBuilder.buildErrorResponse('Job result has expired', 410);
+  }
+
+  return ResponseBuilder.buildSuccessResponse(
+    { ...job.result, buffer },
+    job.inputSize,
+    job.result.filename,
+    job.format
+  );
+}
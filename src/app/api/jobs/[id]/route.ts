@@ -0,0 +1,28 @@
+/**
+ * Compression job status endpoint
+ */
+
+import { NextRequest } from 'next/server';
+import { jobQueue } from '@/lib/jobs';
+import { ResponseBuilder } from '@/lib/api';
+import { apiKeyGuard } from '@/lib/auth';
+
+/**
+ * Main GET handler
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Jobs are only visible to the API key that submitted them
+  const access = await apiKeyGuard.identify(request);
+  if (!access.allowed) {
+    return ResponseBuilder.buildApiKeyErrorResponse(access);
+  }
+
+  const { id } = await params;
+  const job = await jobQueue.get(id, access.key!.id);
+
+  if (!job) {
+    return ResponseBuilder.buildErrorResponse('Job not found', 404);
+  }
+
+  return ResponseBuilder.buildJobResponse(job);
+}
@@ -0,0 +1,94 @@
+/**
+ * Asynchronous compression job submission endpoint
+ */
+
+import { NextRequest } from 'next/server';
+import { OutputFormat, CompressionMode } from '@/lib/types';
+import { logger } from '@/lib/logger';
+import { ImageEncoder } from '@/lib/encoder';
+import { jobQueue } from '@/lib/jobs';
+import { RequestValidator, ResponseBuilder } from '@/lib/api';
+import { apiKeyGuard } from '@/lib/auth';
+
+/**
+ * Main POST handler
+ */
+export async function POST(request: NextRequest) {
+  const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const log = logger.child({ requestId, context: 'API' });
+
+  log.info('Job submission started');
+
+  // API key and rate limit, checked before the body is read
+  const access = await apiKeyGuard.authorize(request);
+  if (!access.allowed) {
+    log.warn(`API key check failed: ${access.error}`, access.key ? { apiKey: access.key.id } : undefined);
+    return ResponseBuilder.buildApiKeyErrorResponse(access);
+  }
+
+  if (jobQueue.isFull()) {
+    log.warn('Job queue full, rejecting request');
+    return ResponseBuilder.buildErrorResponse('Job queue is full. Please try again later.', 503);
+  }
+
+  // Parse request
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch (error) {
+    log.warn(`Request body could not be parsed: ${error}`);
+    return ResponseBuilder.buildErrorResponse('Expected a multipart form body', 400);
+  }
+
+  try {
+    const file = formData.get('image') as File;
+    const format = formData.get('format') as OutputFormat;
+    const mode = (formData.get('mode') as CompressionMode) || 'balanced';
+    const maxFileSize = apiKeyGuard.maxFileSize(access.key);
+
+    // Validate request
+    const validation = RequestValidator.validateRequest(file, format, maxFileSize);
+    if (!validation.isValid) {
+      log.warn(`Request validation failed: ${validation.error}`);
+      return ResponseBuilder.buildErrorResponse(validation.error!, 400);
+    }
+
+    const optionsValidation = RequestValidator.validateOptions(formData, mode);
+    if (!optionsValidation.isValid) {
+      log.warn(`Options validation failed: ${optionsValidation.error}`);
+      return ResponseBuilder.buildErrorResponse(optionsValidation.error!, 400);
+    }
+
+    const inputBuffer = Buffer.from(await file!.arrayBuffer());
+
+    // Validate image
+    try {
+      await new ImageEncoder().validateImage(inputBuffer, maxFileSize);
+    } catch (error) {
+      log.warn(`Image validation failed: ${error}`);
+      return ResponseBuilder.buildErrorResponse(error instanceof Error ? error.message : 'Invalid image', 400);
+    }
+
+    // Per-key formats and daily quotas
+    const admission = await apiKeyGuard.admitUpload(access.key!, [format], inputBuffer.length);
+    if (!admission.allowed) {
+      log.warn(`API key check failed: ${admission.error}`, { apiKey: access.key!.id });
+      return ResponseBuilder.buildApiKeyErrorResponse(admission);
+    }
+
+    const job = await jobQueue.enqueue(inputBuffer, file!.name, format!, mode, optionsValidation.options!, access.key!.id, admission.charge)
+      .catch(async error => {
+        await apiKeyGuard.refund(admission.charge);
+        throw error;
+      });
+    log.info(`Job ${job.id} accepted`);
+
+    return ResponseBuilder.buildJobResponse(job, 202);
+  } catch (error) {
+    log.error('Job submission failed', error);
+    return ResponseBuilder.buildErrorResponse(
+      error instanceof Error ? error.message : 'Job submission failed',
+      500
+    );
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Server metrics endpoint: Prometheus text by default, JSON with
+ * ?format=json or an Accept header asking for JSON
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ServerMetrics } from '@/lib/metrics';
+import { ResponseBuilder } from '@/lib/api';
+
+/**
+ * Main GET handler
+ */
+export async function GET(request: NextRequest) {
+  const format = request.nextUrl.searchParams.get('format');
+  const wantsJson = format === 'json' || (format === null && request.headers.get('accept')?.includes('application/json'));
+
+  if (wantsJson) {
+    return NextResponse.json(ServerMetrics.snapshot(), { headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  return ResponseBuilder.buildMetricsResponse(ServerMetrics.toPrometheus());
+}
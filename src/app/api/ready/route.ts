@@ -0,0 +1,27 @@
+/**
+ * Readiness endpoint: 200 when the codecs pass their self-test and a job
+ * slot is free, 503 otherwise, with the full report either way
+ */
+
+import { NextResponse } from 'next/server';
+import { HealthCheck } from '@/lib/health';
+import { logger } from '@/lib/logger';
+
+/**
+ * Main GET handler
+ */
+export async function GET() {
+  try {
+    const report = await HealthCheck.readiness();
+    return NextResponse.json(report, {
+      status: report.status === 'ready' ? 200 : 503,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error('Readiness check failed', error, undefined, 'HEALTH');
+    return NextResponse.json(
+      { status: 'degraded', error: error instanceof Error ? error.message : 'Readiness check failed' },
+      { status: 503, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
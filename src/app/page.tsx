@@ -12,6 +12,7 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Upload, Download, Settings, Zap, Target, Clock, FileImage, CheckCircle, AlertTriangle } from "lucide-react";
+import type { CompressionJob, CompressionPhase, CompressionProgress, OutputFormat } from "@/lib/types";
 
 interface CompressionResult {
   success: boolean;
@@ -24,6 +25,7 @@ interface CompressionResult {
   processingTime: number;
   scaleFactor?: number;
   paletteReduced?: boolean;
+  paddingBytes?: number;
   error?: string;
 }
 
@@ -33,9 +35,52 @@ interface CompressionStats {
   sizeDifference?: number;
 }
 
+// Share of the progress bar each compression phase covers
+const PHASE_PROGRESS: Record<CompressionPhase, [number, number]> = {
+  'quality-test': [15, 40],
+  'binary-search': [40, 75],
+  'progressive-scaling': [75, 92],
+};
+
+const PHASE_MESSAGES: Record<CompressionPhase, string> = {
+  'quality-test': 'Parallel processing multiple quality settings... ⚡',
+  'binary-search': 'Interpolating the size curve towards target... 🎯',
+  'progressive-scaling': 'Smart scaling engine stepping in... 📐',
+};
+
+function getProgressPercent(progress: CompressionProgress): number {
+  const [start, end] = PHASE_PROGRESS[progress.phase];
+  const fraction = Math.min(1, progress.iterations / Math.max(1, progress.maxIterations));
+  return Math.round(start + (end - start) * fraction);
+}
+
+function describeProgress(progress: CompressionProgress): string {
+  const message = PHASE_MESSAGES[progress.phase];
+  if (progress.bestSize === undefined) return message;
+  return `${message} (${(progress.bestSize / 1024).toFixed(1)} KB best after ${progress.iterations} tries)`;
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  let errorMessage = 'Compression failed';
+  try {
+    const errorData = await response.json();
+    errorMessage = errorData.error || errorMessage;
+  } catch (jsonError) {
+    // If response is not JSON, try to get text
+    try {
+      const errorText = await response.text();
+      errorMessage = errorText || errorMessage;
+    } catch (textError) {
+      // Use default error message
+      errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+    }
+  }
+  return errorMessage;
+}
+
 export default function Home() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [format, setFormat] = useState<'webp' | 'avif'>('webp');
+  const [format, setFormat] = useState<OutputFormat>('webp');
   const [mode, setMode] = useState<'exact' | 'balanced'>('balanced');
   const [isCompressing, setIsCompressing] = useState(false);
   const [compressionProgress, setCompressionProgress] = useState<string>('');
@@ -122,45 +167,57 @@ export default function Home() {
     formData.append('mode', mode);
 
     try {
-      // Simulate more realistic progress with delays
-      await new Promise(resolve => setTimeout(resolve, 300));
       setCompressionProgress('Uploading your pic to our servers... 📤');
-      setProgressPercent(15);
-      
-      await new Promise(resolve => setTimeout(resolve, 200));
-      setCompressionProgress('AI analyzing your image - this looks fire! 🔥');
-      setProgressPercent(25);
-      
-      const response = await fetch('/api/compress', {
+      setProgressPercent(10);
+
+      const submitResponse = await fetch('/api/jobs', {
         method: 'POST',
         body: formData,
       });
 
-      await new Promise(resolve => setTimeout(resolve, 300));
-      setCompressionProgress('Parallel processing multiple quality settings... ⚡');
-      setProgressPercent(40);
+      if (!submitResponse.ok) {
+        throw new Error(await readErrorMessage(submitResponse));
+      }
 
-      if (!response.ok) {
-        let errorMessage = 'Compression failed';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.error || errorMessage;
-        } catch (jsonError) {
-          // If response is not JSON, try to get text
-          try {
-            const errorText = await response.text();
-            errorMessage = errorText || errorMessage;
-          } catch (textError) {
-            // Use default error message
-            errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+      const job: CompressionJob = await submitResponse.json();
+      setCompressionProgress('Queued up, waiting for a free worker... ⏳');
+
+      // Follow the real compression phases until the job finishes
+      const finishedJob = await new Promise<CompressionJob>((resolve, reject) => {
+        const events = new EventSource(`/api/jobs/${job.id}/events`);
+        const handleUpdate = (event: MessageEvent) => {
+          const update: CompressionJob = JSON.parse(event.data);
+          if (update.progress) {
+            const progress = update.progress;
+            setProgressPercent(previous => Math.max(previous, getProgressPercent(progress)));
+            setCompressionProgress(describeProgress(progress));
           }
-        }
-        throw new Error(errorMessage);
+          if (update.status === 'completed' || update.status === 'failed') {
+            events.close();
+            resolve(update);
+          }
+        };
+
+        (['queued', 'running', 'completed', 'failed'] as const).forEach(status => {
+          events.addEventListener(status, handleUpdate);
+        });
+        events.onerror = () => {
+          events.close();
+          reject(new Error('Lost connection to the compression progress stream'));
+        };
+      });
+
+      if (finishedJob.status === 'failed') {
+        throw new Error(finishedJob.error || 'Compression failed');
       }
 
-      await new Promise(resolve => setTimeout(resolve, 400));
-      setCompressionProgress('Adaptive binary search converging on target... 🎯');
-      setProgressPercent(65);
+      setCompressionProgress('Caching result and preparing download... 💯');
+      setProgressPercent(95);
+
+      const response = await fetch(`/api/jobs/${job.id}/result`);
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
 
       // Get response headers for stats
       const processingTime = parseInt(response.headers.get('X-Processing-Time') || '0');
@@ -172,6 +229,8 @@ export default function Home() {
       const responseMode = response.headers.get('X-Mode') as 'exact' | 'balanced' || mode;
       const scaleFactor = parseFloat(response.headers.get('X-Scale-Factor') || '1');
       const paletteReduced = response.headers.get('X-Palette-Reduced') === '1';
+      const paddingBytes = parseInt(response.headers.get('X-Padding-Bytes') || '0');
+      const targetBytes = parseInt(response.headers.get('X-Target-Bytes') || '0');
 
       setResult({
         success: true,
@@ -183,23 +242,16 @@ export default function Home() {
         mode: responseMode,
         processingTime,
         scaleFactor: scaleFactor !== 1 ? scaleFactor : undefined,
-        paletteReduced
+        paletteReduced,
+        paddingBytes: paddingBytes || undefined
       });
 
       setStats({
         processingTime,
         compressionRatio,
-        sizeDifference: Math.abs(resultBytes - 80000)
+        sizeDifference: Math.abs(resultBytes - targetBytes)
       });
 
-      await new Promise(resolve => setTimeout(resolve, 300));
-      setCompressionProgress('Format-specific optimization in progress... 🔄');
-      setProgressPercent(80);
-
-      await new Promise(resolve => setTimeout(resolve, 200));
-      setCompressionProgress('Caching result and preparing download... 💯');
-      setProgressPercent(90);
-
       // Create download link with SEO-friendly filename
       const blob = await response.blob();
       const downloadUrl = URL.createObjectURL(blob);
@@ -226,25 +278,25 @@ export default function Home() {
       setProgressPercent(100);
       setCompressionProgress('BOOM! Your compressed image is ready! 🎉');
 
-      // Send performance metrics to dashboard
-      if (typeof window !== 'undefined' && result) {
+      // Add this run to the dashboard's session history
+      if (typeof window !== 'undefined') {
         window.postMessage({
           type: 'COMPRESSION_METRICS',
           metrics: {
-            processingTime: result.processingTime,
-            iterationsUsed: result.iterations,
-            memoryPeak: 0,
-            cpuUsage: 0,
-            finalSize: result.outputSize,
-            qualityAchieved: result.quality,
-            exactMatch: result.exactMatch,
-            compressionRatio: selectedFile.size / result.outputSize,
-            queueLength: 0,
-            activeJobs: 0,
-            cacheHitRate: 0,
-            errorRate: 0,
-            parallelTests: result.iterations,
-            cacheHit: false
+            timestamp: Date.now(),
+            fileName: selectedFile.name,
+            format,
+            mode: responseMode,
+            originalSize: selectedFile.size,
+            targetSize: targetBytes,
+            finalSize: resultBytes,
+            processingTime,
+            iterationsUsed: iterations,
+            qualityAchieved: quality,
+            exactMatch,
+            compressionRatio: resultBytes > 0 ? selectedFile.size / resultBytes : 0,
+            queueLength: parseInt(response.headers.get('X-Queue-Length') || '0'),
+            cacheHit: response.headers.get('X-Cache-Hit') === '1'
           }
         }, '*');
       }
@@ -334,7 +386,7 @@ export default function Home() {
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept="image/jpeg,image/jpg,image/png"
+                    accept="image/jpeg,image/jpg,image/png,image/webp,image/avif,image/gif,image/tiff,image/heic,image/heif,image/svg+xml,.heic,.heif"
                     onChange={handleFileSelect}
                     className="hidden"
                   />
@@ -354,7 +406,7 @@ export default function Home() {
                         <Upload className="w-12 h-12 mx-auto" />
                       </div>
                       <p className="font-medium">Click to upload</p>
-                      <p className="text-sm text-muted-foreground">JPEG, JPG, PNG up to 10MB</p>
+                      <p className="text-sm text-muted-foreground">JPEG, PNG, WebP, AVIF, GIF, TIFF, HEIC, SVG up to 25MB</p>
                     </div>
                   )}
                 </div>
@@ -363,14 +415,14 @@ export default function Home() {
                 <div className="mt-6">
                   <Label className="text-sm font-medium mb-3 block">Output Format</Label>
                   <div className="flex gap-4">
-                    {(['webp', 'avif'] as const).map((fmt) => (
+                    {(['webp', 'avif', 'jpeg', 'png'] as const).map((fmt) => (
                       <Label key={fmt} className="flex items-center space-x-2 cursor-pointer">
                         <input
                           type="radio"
                           name="format"
                           value={fmt}
                           checked={format === fmt}
-                          onChange={(e) => setFormat(e.target.value as 'webp' | 'avif')}
+                          onChange={(e) => setFormat(e.target.value as OutputFormat)}
                           className="w-4 h-4 text-primary bg-background border-border focus:ring-primary"
                         />
                         <span className="text-sm font-medium uppercase">{fmt}</span>
@@ -524,6 +576,11 @@ export default function Home() {
                             Applied palette reduction for optimal compression
                           </p>
                         )}
+                        {result.paddingBytes && (
+                          <p className="text-xs text-gray-400 mt-1">
+                            Padded with {result.paddingBytes} bytes to hit the exact target
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -1,31 +1,94 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import type { MetricsSnapshot, ServerMetricsSummary } from '@/lib/types';
+import { MetricsHistory, MetricsPoint } from '@/lib/metrics-history';
 
-interface PerformanceMetrics {
+// One compression run in this browser session, posted by the page
+interface SessionCompression {
+  timestamp: number;
+  fileName: string;
+  format: string;
+  mode: string;
+  originalSize: number;
+  targetSize: number;
+  finalSize: number;
   processingTime: number;
   iterationsUsed: number;
-  memoryPeak: number;
-  cpuUsage: number;
-  finalSize: number;
   qualityAchieved: number;
   exactMatch: boolean;
   compressionRatio: number;
   queueLength: number;
-  activeJobs: number;
-  cacheHitRate: number;
-  errorRate: number;
-  parallelTests?: number;
-  cacheHit?: boolean;
+  cacheHit: boolean;
 }
 
 interface PerformanceDashboardProps {
   className?: string;
+  pollInterval?: number;
+}
+
+const HISTORY_POINTS = 60;
+const SESSION_STORAGE_KEY = 'pixelpress-session-history';
+const SESSION_LIMIT = 100;
+
+function loadSessionHistory(): SessionCompression[] {
+  try {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Line chart of recent values; gaps where a value is null
+ */
+function Sparkline({ series, max }: { series: Array<{ values: Array<number | null>; color: string }>; max?: number }) {
+  const width = 240;
+  const height = 40;
+  const points = Math.max(HISTORY_POINTS, ...series.map(({ values }) => values.length));
+  const top = max ?? Math.max(0, ...series.flatMap(({ values }) => values.filter((value): value is number => value !== null)));
+
+  const segments = (values: Array<number | null>) => {
+    const offset = points - values.length;
+    const runs: string[] = [];
+    let run: string[] = [];
+    values.forEach((value, i) => {
+      if (value === null) {
+        if (run.length > 0) runs.push(run.join(' '));
+        run = [];
+        return;
+      }
+      const x = ((offset + i) / (points - 1)) * width;
+      const y = height - 2 - (top > 0 ? value / top : 0) * (height - 4);
+      run.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+    });
+    if (run.length > 0) runs.push(run.join(' '));
+    return runs;
+  };
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-10 bg-gray-800/60 rounded-md">
+      {series.map(({ values, color }) =>
+        segments(values).map((run, i) =>
+          run.includes(' ') ? (
+            <polyline key={`${color}-${i}`} points={run} fill="none" stroke={color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          ) : (
+            <circle key={`${color}-${i}`} cx={run.split(',')[0]} cy={run.split(',')[1]} r={1.5} fill={color} />
+          )
+        )
+      )}
+    </svg>
+  );
 }
 
-export default function PerformanceDashboard({ className = '' }: PerformanceDashboardProps) {
-  const [metrics, setMetrics] = useState<PerformanceMetrics | null>(null);
+export default function PerformanceDashboard({ className = '', pollInterval = 5000 }: PerformanceDashboardProps) {
   const [isVisible, setIsVisible] = useState(false);
+  const [history, setHistory] = useState<MetricsPoint[]>([]);
+  const [summary, setSummary] = useState<ServerMetricsSummary | null>(null);
+  const [metricsError, setMetricsError] = useState<string | null>(null);
+  const [sessionRuns, setSessionRuns] = useState<SessionCompression[]>([]);
+  const lastSnapshotRef = useRef<MetricsSnapshot | null>(null);
 
   const formatTime = (milliseconds: number) => {
     const seconds = milliseconds / 1000;
@@ -45,15 +108,26 @@ export default function PerformanceDashboard({ className = '' }: PerformanceDash
     return `${mb.toFixed(1)} MB`;
   };
 
+  const formatPercent = (rate: number | null | undefined) =>
+    rate === null || rate === undefined ? '—' : `${(rate * 100).toFixed(1)}%`;
+
   useEffect(() => {
-    // Listen for performance metrics from compression results
+    setSessionRuns(loadSessionHistory());
+
+    // Every compression the page finishes lands in the session history
     const handleMessage = (event: MessageEvent) => {
-      if (event.data.type === 'COMPRESSION_METRICS') {
-        setMetrics(event.data.metrics);
+      if (event.source === window && event.data?.type === 'COMPRESSION_METRICS') {
+        const run: SessionCompression = event.data.metrics;
+        setSessionRuns(previous => {
+          const runs = [run, ...previous].slice(0, SESSION_LIMIT);
+          try {
+            sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(runs));
+          } catch {
+            // Storage full or disabled; the table still works for this page
+          }
+          return runs;
+        });
         setIsVisible(true);
-        
-        // Auto-hide after 5 seconds
-        setTimeout(() => setIsVisible(false), 5000);
       }
     };
 
@@ -61,7 +135,65 @@ export default function PerformanceDashboard({ className = '' }: PerformanceDash
     return () => window.removeEventListener('message', handleMessage);
   }, []);
 
-  if (!isVisible || !metrics) return null;
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      if (document.hidden) return;
+      try {
+        const response = await fetch('/api/metrics?format=json', { cache: 'no-store' });
+        if (!response.ok) {
+          throw new Error(`Metrics endpoint returned ${response.status}`);
+        }
+        const snapshot: MetricsSnapshot = await response.json();
+        if (cancelled) return;
+
+        const previous = lastSnapshotRef.current;
+        lastSnapshotRef.current = snapshot;
+        setSummary(snapshot.summary);
+        setMetricsError(null);
+        if (previous) {
+          const point = MetricsHistory.point(previous, snapshot);
+          setHistory(points => [...points, point].slice(-HISTORY_POINTS));
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setMetricsError(err instanceof Error ? err.message : 'Metrics unavailable');
+        }
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, pollInterval);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isVisible, pollInterval]);
+
+  const clearSessionHistory = () => {
+    setSessionRuns([]);
+    try {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    } catch {
+      // Nothing stored to clear
+    }
+  };
+
+  if (!isVisible) {
+    return (
+      <button
+        onClick={() => setIsVisible(true)}
+        className={`fixed bottom-4 right-4 z-50 bg-gray-900 border border-gray-700 rounded-full p-3 shadow-2xl shadow-black/40 text-gray-300 hover:text-white transition-colors ${className}`}
+        aria-label="Show performance metrics"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3v18h18M7 15l4-4 3 3 5-6" />
+        </svg>
+      </button>
+    );
+  }
 
   const getPerformanceGrade = (processingTime: number): string => {
     if (processingTime < 3000) return 'A+';
@@ -81,123 +213,161 @@ export default function PerformanceDashboard({ className = '' }: PerformanceDash
     }
   };
 
-  const grade = getPerformanceGrade(metrics.processingTime);
+  const latest = history.length > 0 ? history[history.length - 1] : null;
+  const lastRun = sessionRuns[0];
+  const grade = lastRun ? getPerformanceGrade(lastRun.processingTime) : null;
+
+  const charts = [
+    {
+      label: 'Throughput',
+      value: latest ? `${latest.throughput.toFixed(1)}/min` : '—',
+      series: [{ values: history.map(point => point.throughput), color: '#60a5fa' }],
+    },
+    {
+      label: 'Latency p50 / p95',
+      value: latest?.latencyP50 != null
+        ? `${formatTime(latest.latencyP50 * 1000)} / ${formatTime((latest.latencyP95 ?? 0) * 1000)}`
+        : '—',
+      series: [
+        { values: history.map(point => point.latencyP50), color: '#34d399' },
+        { values: history.map(point => point.latencyP95), color: '#fbbf24' },
+      ],
+    },
+    {
+      label: 'Cache Hit Rate',
+      value: formatPercent(latest?.cacheHitRate ?? summary?.cacheHitRate),
+      series: [{ values: history.map(point => point.cacheHitRate), color: '#a78bfa' }],
+      max: 1,
+    },
+    {
+      label: 'Error Rate',
+      value: formatPercent(latest?.errorRate ?? summary?.errorRate),
+      series: [{ values: history.map(point => point.errorRate), color: '#f87171' }],
+      max: 1,
+    },
+    {
+      label: 'Active / Max Jobs',
+      value: latest ? `${latest.activeJobs}/${latest.maxJobs}` : summary ? `${summary.activeJobs}` : '—',
+      series: [
+        { values: history.map(point => point.maxJobs), color: '#4b5563' },
+        { values: history.map(point => point.activeJobs), color: '#fb923c' },
+      ],
+      max: latest?.maxJobs || undefined,
+    },
+  ];
 
   return (
     <div className={`fixed top-4 right-4 z-50 ${className}`}>
-      <div className="bg-gray-900 border border-gray-700 rounded-2xl p-4 shadow-2xl shadow-black/40 max-w-sm">
-        <div className="flex items-center justify-between mb-3">
+      <div className="relative bg-gray-900 border border-gray-700 rounded-2xl p-4 shadow-2xl shadow-black/40 w-[22rem] max-h-[calc(100vh-2rem)] overflow-y-auto">
+        <div className="flex items-center justify-between mb-3 pr-6">
           <h3 className="text-lg font-semibold text-white">Performance Metrics</h3>
-          <div className={`text-2xl font-bold ${getEfficiencyColor(grade)}`}>
-            {grade}
-          </div>
-        </div>
-
-        <div className="space-y-3">
-          {/* Processing Time */}
-          <div className="flex justify-between items-center">
-            <span className="text-sm text-gray-400">Processing Time</span>
-            <span className="text-sm font-medium text-white">
-              {formatTime(metrics.processingTime)}
-            </span>
-          </div>
-
-          {/* Iterations Used */}
-          <div className="flex justify-between items-center">
-            <span className="text-sm text-gray-400">Iterations</span>
-            <span className="text-sm font-medium text-white">
-              {metrics.iterationsUsed}
-              {metrics.parallelTests && (
-                <span className="text-xs text-orange-400 ml-1">
-                  ({metrics.parallelTests} parallel)
-                </span>
-              )}
-            </span>
-          </div>
-
-          {/* Compression Ratio */}
-          <div className="flex justify-between items-center">
-            <span className="text-sm text-gray-400">Compression</span>
-            <span className="text-sm font-medium text-white">
-              {metrics.compressionRatio.toFixed(1)}:1
-            </span>
-          </div>
-
-          {/* Cache Hit */}
-          {metrics.cacheHit && (
-            <div className="flex justify-between items-center">
-              <span className="text-sm text-gray-400">Cache</span>
-              <span className="text-sm font-medium text-green-400">HIT</span>
+          {grade && (
+            <div className={`text-2xl font-bold ${getEfficiencyColor(grade)}`}>
+              {grade}
             </div>
           )}
+        </div>
 
-          {/* Final Size */}
-          <div className="flex justify-between items-center">
-            <span className="text-sm text-gray-400">Final Size</span>
-            <span className="text-sm font-medium text-white">
-              {formatFileSize(metrics.finalSize)}
-            </span>
-          </div>
-
-          {/* Quality Achieved */}
-          <div className="flex justify-between items-center">
-            <span className="text-sm text-gray-400">Quality</span>
-            <span className="text-sm font-medium text-white">
-              {metrics.qualityAchieved}%
+        {/* Latest Compression */}
+        {lastRun && (
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 mb-4 text-sm">
+            <span className="text-gray-400">Processing Time</span>
+            <span className="text-right font-medium text-white">{formatTime(lastRun.processingTime)}</span>
+            <span className="text-gray-400">Iterations</span>
+            <span className="text-right font-medium text-white">{lastRun.iterationsUsed}</span>
+            <span className="text-gray-400">Compression</span>
+            <span className="text-right font-medium text-white">{lastRun.compressionRatio.toFixed(1)}:1</span>
+            <span className="text-gray-400">Final Size</span>
+            <span className="text-right font-medium text-white">{formatFileSize(lastRun.finalSize)}</span>
+            <span className="text-gray-400">Quality</span>
+            <span className="text-right font-medium text-white">{lastRun.qualityAchieved}%</span>
+            <span className="text-gray-400">Match</span>
+            <span className={`text-right font-medium ${lastRun.exactMatch ? 'text-green-400' : 'text-orange-400'}`}>
+              {lastRun.exactMatch ? 'EXACT' : 'CLOSE'}
+              {lastRun.cacheHit && <span className="text-green-400 ml-1">(cache)</span>}
             </span>
           </div>
+        )}
 
-          {/* Exact Match */}
-          <div className="flex justify-between items-center">
-            <span className="text-sm text-gray-400">Match</span>
-            <span className={`text-sm font-medium ${metrics.exactMatch ? 'text-green-400' : 'text-orange-400'}`}>
-              {metrics.exactMatch ? 'EXACT' : 'CLOSE'}
+        {/* Server Metrics */}
+        <div className="border-t border-gray-700 pt-3 space-y-3">
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>Server, last {Math.round((HISTORY_POINTS * pollInterval) / 60000)} minutes</span>
+            <span className={metricsError ? 'text-red-400' : 'text-green-400'}>
+              {metricsError ? 'offline' : 'live'}
             </span>
           </div>
 
-          {/* System Status */}
-          <div className="border-t border-gray-700 pt-3">
-            <div className="flex justify-between items-center">
-              <span className="text-sm text-gray-400">Active Jobs</span>
-              <span className="text-sm font-medium text-white">
-                {metrics.activeJobs}/20
-              </span>
+          {charts.map(chart => (
+            <div key={chart.label}>
+              <div className="flex justify-between items-center mb-1">
+                <span className="text-sm text-gray-400">{chart.label}</span>
+                <span className="text-sm font-medium text-white">{chart.value}</span>
+              </div>
+              <Sparkline series={chart.series} max={chart.max} />
             </div>
-            <div className="flex justify-between items-center">
-              <span className="text-sm text-gray-400">Cache Hit Rate</span>
-              <span className="text-sm font-medium text-white">
-                {(metrics.cacheHitRate * 100).toFixed(1)}%
-              </span>
+          ))}
+
+          {summary && (
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>Queue {summary.queueLength}</span>
+              <span>CPU {formatPercent(summary.cpuUsage)}</span>
+              <span>Peak RSS {formatFileSize(summary.memoryPeak)}</span>
             </div>
-          </div>
+          )}
+          {metricsError && <p className="text-xs text-red-400">{metricsError}</p>}
         </div>
 
-        {/* Performance Indicator */}
-        <div className="mt-4">
-          <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
-            <span>Performance</span>
-            <span>{grade}</span>
-          </div>
-          <div className="w-full bg-gray-800 rounded-full h-2">
-            <div 
-              className={`h-2 rounded-full transition-all duration-500 ${
-                grade === 'A+' ? 'bg-gradient-to-r from-green-400 to-green-500' :
-                grade === 'A' ? 'bg-gradient-to-r from-green-500 to-green-600' :
-                grade === 'B' ? 'bg-gradient-to-r from-yellow-500 to-yellow-600' :
-                grade === 'C' ? 'bg-gradient-to-r from-orange-500 to-orange-600' :
-                'bg-gradient-to-r from-red-500 to-red-600'
-              }`}
-              style={{ 
-                width: `${Math.max(20, Math.min(100, 100 - (metrics.processingTime / 100)))}%` 
-              }}
-            />
+        {/* Session History */}
+        <div className="border-t border-gray-700 pt-3 mt-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-white">This Session</span>
+            {sessionRuns.length > 0 && (
+              <button onClick={clearSessionHistory} className="text-xs text-gray-500 hover:text-white transition-colors">
+                Clear
+              </button>
+            )}
           </div>
+          {sessionRuns.length === 0 ? (
+            <p className="text-xs text-gray-500">Compressions you run appear here.</p>
+          ) : (
+            <div className="max-h-48 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="text-left font-normal pb-1">File</th>
+                    <th className="text-right font-normal pb-1">Size</th>
+                    <th className="text-right font-normal pb-1">Q</th>
+                    <th className="text-right font-normal pb-1">Time</th>
+                    <th className="text-right font-normal pb-1">Match</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {sessionRuns.map(run => (
+                    <tr key={`${run.timestamp}-${run.fileName}`} className="border-t border-gray-800">
+                      <td className="py-1 pr-2 max-w-[7rem] truncate" title={`${run.fileName} at ${new Date(run.timestamp).toLocaleTimeString()}`}>
+                        {run.fileName}
+                        <span className="block text-gray-500">{run.format.toUpperCase()} · {run.mode}</span>
+                      </td>
+                      <td className="py-1 text-right">{formatFileSize(run.finalSize)}</td>
+                      <td className="py-1 text-right">{run.qualityAchieved}</td>
+                      <td className="py-1 text-right">{formatTime(run.processingTime)}</td>
+                      <td className={`py-1 text-right ${run.exactMatch ? 'text-green-400' : 'text-orange-400'}`}>
+                        {run.exactMatch ? 'EXACT' : 'CLOSE'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
 
         {/* Close Button */}
         <button
           onClick={() => setIsVisible(false)}
           className="absolute top-2 right-2 text-gray-500 hover:text-white transition-colors"
+          aria-label="Hide performance metrics"
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -0,0 +1,541 @@
+/**
+ * Shared building blocks for the compression API routes
+ */
+
+import { NextResponse } from 'next/server';
+import { OutputFormat, CompressionMode, TargetOptions, RequestOptions, CompressionJob, ApiKeyCheck, ResizeOptions, ResizePreset, ResizeFit, ResizeGravity, MetadataOptions, MetadataPolicy, ColorSpaceTarget } from './types';
+import { COMPRESSION_CONFIG, BATCH_CONFIG, SRCSET_CONFIG, SUPPORTED_OUTPUT_FORMATS, ALLOWED_INPUT_TYPES, RESIZE_PRESETS, RESIZE_CONFIG, METADATA_CONFIG, COLOR_CONFIG } from './config';
+import { EXIF_TEXT_TAGS } from './exif';
+import { ImageEncoder } from './encoder';
+import { encodePool } from './encode-pool';
+
+// Resource management
+let activeJobs = 0;
+let totalJobsProcessed = 0;
+const slotWaiters: Array<() => void> = [];
+
+/**
+ * Resource management and rate limiting
+ */
+export class ResourceManager {
+  static canProcessRequest(): boolean {
+    return activeJobs < COMPRESSION_CONFIG.maxConcurrentJobs;
+  }
+
+  static startJob(): void {
+    activeJobs++;
+    totalJobsProcessed++;
+  }
+
+  static endJob(): void {
+    activeJobs--;
+    slotWaiters.shift()?.();
+  }
+
+  /**
+   * Wait for a free job slot instead of rejecting, for callers that fan out
+   * many compressions from a single request
+   */
+  static async acquireJob(): Promise<void> {
+    while (!this.canProcessRequest()) {
+      await new Promise<void>(resolve => slotWaiters.push(resolve));
+    }
+    this.startJob();
+  }
+
+  static getStats() {
+    return {
+      activeJobs,
+      queuedJobs: slotWaiters.length,
+      totalJobsProcessed,
+      maxConcurrentJobs: COMPRESSION_CONFIG.maxConcurrentJobs,
+      encodePool: encodePool.getStats(),
+    };
+  }
+}
+
+/**
+ * Request validation
+ */
+export class RequestValidator {
+  static validateRequest(
+    file: File | null,
+    format: string | null,
+    maxFileSize: number = COMPRESSION_CONFIG.maxFileSize
+  ): { isValid: boolean; error?: string } {
+    if (!file) {
+      return { isValid: false, error: 'No image file provided' };
+    }
+
+    if (!SUPPORTED_OUTPUT_FORMATS.includes(format as OutputFormat)) {
+      return { isValid: false, error: 'Unsupported output format' };
+    }
+
+    if (!ImageEncoder.isFormatAvailable(format as OutputFormat)) {
+      return { isValid: false, error: `Output format ${format} is not available on this server` };
+    }
+
+    // Browsers leave the type empty for formats they don't know (often HEIC);
+    // those are left to the magic byte sniffing in ImageEncoder.validateImage
+    if (file.type && !ALLOWED_INPUT_TYPES.includes(file.type as any)) {
+      return { isValid: false, error: 'Unsupported file type' };
+    }
+
+    if (file.size > maxFileSize) {
+      return { isValid: false, error: 'File too large' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validate a multi-file batch request, naming the first offending file
+   */
+  static validateBatchRequest(
+    files: File[],
+    format: string | null,
+    maxFileSize: number = COMPRESSION_CONFIG.maxFileSize
+  ): { isValid: boolean; error?: string } {
+    if (files.length === 0) {
+      return { isValid: false, error: 'No image files provided' };
+    }
+
+    if (files.length > BATCH_CONFIG.maxFiles) {
+      return { isValid: false, error: `Too many files (max: ${BATCH_CONFIG.maxFiles})` };
+    }
+
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > BATCH_CONFIG.maxTotalSize) {
+      return { isValid: false, error: `Batch too large: ${totalSize} bytes (max: ${BATCH_CONFIG.maxTotalSize} bytes)` };
+    }
+
+    for (const file of files) {
+      const validation = this.validateRequest(file, format, maxFileSize);
+      if (!validation.isValid) {
+        return { isValid: false, error: `${file.name}: ${validation.error}` };
+      }
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Parse the comma-separated srcset widths and optional per-width byte
+   * budgets, returning the widths in ascending order
+   */
+  static validateSrcsetRequest(
+    widths: string | null,
+    budgets: string | null
+  ): { isValid: boolean; error?: string; widths?: number[]; budgets?: number[] } {
+    if (!widths) {
+      return { isValid: false, error: 'No widths provided' };
+    }
+
+    const parsedWidths = widths.split(',').map(width => Number(width.trim()));
+    if (parsedWidths.some(width => !Number.isInteger(width) || width < 1 || width > RESIZE_CONFIG.maxDimension)) {
+      return { isValid: false, error: `Widths must be whole numbers of pixels between 1 and ${RESIZE_CONFIG.maxDimension}` };
+    }
+
+    if (new Set(parsedWidths).size !== parsedWidths.length) {
+      return { isValid: false, error: 'Widths must be unique' };
+    }
+
+    if (parsedWidths.length > SRCSET_CONFIG.maxWidths) {
+      return { isValid: false, error: `Too many widths (max: ${SRCSET_CONFIG.maxWidths})` };
+    }
+
+    let parsedBudgets: number[] | undefined;
+    if (budgets) {
+      parsedBudgets = budgets.split(',').map(budget => Number(budget.trim()));
+      if (parsedBudgets.length !== parsedWidths.length) {
+        return { isValid: false, error: 'Provide one budget per width' };
+      }
+      if (parsedBudgets.some(budget =>
+        !Number.isInteger(budget) ||
+        budget < COMPRESSION_CONFIG.minTargetBytes ||
+        budget > COMPRESSION_CONFIG.maxTargetBytes
+      )) {
+        return {
+          isValid: false,
+          error: `Budgets must be whole numbers of bytes between ${COMPRESSION_CONFIG.minTargetBytes} and ${COMPRESSION_CONFIG.maxTargetBytes}`,
+        };
+      }
+    }
+
+    // Sort widths ascending, keeping each budget with its width
+    const order = parsedWidths.map((_, index) => index).sort((a, b) => parsedWidths[a] - parsedWidths[b]);
+    return {
+      isValid: true,
+      widths: order.map(index => parsedWidths[index]),
+      budgets: parsedBudgets && order.map(index => parsedBudgets![index]),
+    };
+  }
+
+  /**
+   * Parse and bound-check every optional compression field of a request
+   */
+  static validateOptions(
+    formData: FormData,
+    mode: CompressionMode
+  ): { isValid: boolean; error?: string; options?: RequestOptions } {
+    const targetValidation = this.validateTargetOptions(
+      formData.get('targetBytes') as string | null,
+      formData.get('targetKB') as string | null,
+      formData.get('tolerance') as string | null,
+      mode
+    );
+    if (!targetValidation.isValid) {
+      return targetValidation;
+    }
+
+    const floorValidation = this.validateQualityFloor(formData.get('minSSIM') as string | null);
+    if (!floorValidation.isValid) {
+      return floorValidation;
+    }
+
+    const resizeValidation = this.validateResizeOptions(
+      formData.get('preset') as string | null,
+      formData.get('width') as string | null,
+      formData.get('height') as string | null,
+      formData.get('fit') as string | null,
+      formData.get('gravity') as string | null
+    );
+    if (!resizeValidation.isValid) {
+      return resizeValidation;
+    }
+
+    const metadataValidation = this.validateMetadataPolicy(
+      formData.get('metadata') as string | null,
+      formData.get('metadataAllow') as string | null
+    );
+    if (!metadataValidation.isValid) {
+      return metadataValidation;
+    }
+
+    const colorValidation = this.validateColorSpace(formData.get('colorSpace') as string | null);
+    if (!colorValidation.isValid) {
+      return colorValidation;
+    }
+
+    return {
+      isValid: true,
+      options: {
+        ...targetValidation.options!,
+        minSSIM: floorValidation.minSSIM,
+        resize: resizeValidation.resize,
+        metadata: metadataValidation.metadata,
+        colorSpace: colorValidation.colorSpace,
+      },
+    };
+  }
+
+  /**
+   * Parse the optional output colour handling, sRGB or preserve
+   */
+  static validateColorSpace(colorSpace: string | null): { isValid: boolean; error?: string; colorSpace?: ColorSpaceTarget } {
+    if (!colorSpace) {
+      return { isValid: true };
+    }
+
+    if (!COLOR_CONFIG.targets.includes(colorSpace as ColorSpaceTarget)) {
+      return { isValid: false, error: `colorSpace must be one of: ${COLOR_CONFIG.targets.join(', ')}` };
+    }
+
+    return { isValid: true, colorSpace: colorSpace as ColorSpaceTarget };
+  }
+
+  /**
+   * Parse the metadata policy and, for allow-list, the comma-separated fields
+   * to keep. Field names are matched case-insensitively.
+   */
+  static validateMetadataPolicy(
+    policy: string | null,
+    allow: string | null
+  ): { isValid: boolean; error?: string; metadata?: MetadataOptions } {
+    if (!policy && !allow) {
+      return { isValid: true };
+    }
+
+    const resolvedPolicy = (policy || 'allow-list') as MetadataPolicy;
+    if (!METADATA_CONFIG.policies.includes(resolvedPolicy)) {
+      return { isValid: false, error: `metadata must be one of: ${METADATA_CONFIG.policies.join(', ')}` };
+    }
+
+    if (resolvedPolicy !== 'allow-list') {
+      if (allow) {
+        return { isValid: false, error: 'metadataAllow requires metadata=allow-list' };
+      }
+      return { isValid: true, metadata: { policy: resolvedPolicy } };
+    }
+
+    const known = [...METADATA_CONFIG.allowListFields, ...Object.keys(EXIF_TEXT_TAGS)];
+    const fields: string[] = [];
+    for (const field of (allow ?? '').split(',').map(field => field.trim()).filter(Boolean)) {
+      const match = known.find(name => name.toLowerCase() === field.toLowerCase());
+      if (!match) {
+        return { isValid: false, error: `Unknown metadata field ${field} (expected any of: ${known.join(', ')})` };
+      }
+      fields.push(match);
+    }
+
+    if (fields.length === 0) {
+      return { isValid: false, error: 'metadata=allow-list needs a metadataAllow list' };
+    }
+
+    return { isValid: true, metadata: { policy: 'allow-list', allow: fields } };
+  }
+
+  /**
+   * Resolve the optional preset and explicit geometry fields into a resize,
+   * with explicit fields overriding the preset
+   */
+  static validateResizeOptions(
+    preset: string | null,
+    width: string | null,
+    height: string | null,
+    fit: string | null,
+    gravity: string | null
+  ): { isValid: boolean; error?: string; resize?: ResizeOptions } {
+    if (!preset && !width && !height && !fit && !gravity) {
+      return { isValid: true };
+    }
+
+    if (preset && !Object.keys(RESIZE_PRESETS).includes(preset)) {
+      return { isValid: false, error: `Unknown preset (expected one of: ${Object.keys(RESIZE_PRESETS).join(', ')})` };
+    }
+    const presetConfig: ResizePreset = preset ? RESIZE_PRESETS[preset] : {};
+
+    const dimensions: { width?: number; height?: number } = { width: presetConfig.width, height: presetConfig.height };
+    for (const [name, value] of [['width', width], ['height', height]] as const) {
+      if (!value) continue;
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < 1) {
+        return { isValid: false, error: `${name} must be a positive whole number of pixels` };
+      }
+      dimensions[name] = parsed;
+    }
+
+    if (!dimensions.width && !dimensions.height) {
+      return { isValid: false, error: 'Resizing needs a width or height' };
+    }
+
+    const pixelRatio = presetConfig.pixelRatio ?? 1;
+    const scaledWidth = dimensions.width && dimensions.width * pixelRatio;
+    const scaledHeight = dimensions.height && dimensions.height * pixelRatio;
+    if (Math.max(scaledWidth ?? 0, scaledHeight ?? 0) > RESIZE_CONFIG.maxDimension) {
+      return { isValid: false, error: `Width and height must be at most ${RESIZE_CONFIG.maxDimension} pixels` };
+    }
+
+    const resolvedFit = (fit || presetConfig.fit || RESIZE_CONFIG.defaultFit) as ResizeFit;
+    if (!RESIZE_CONFIG.fits.includes(resolvedFit)) {
+      return { isValid: false, error: `fit must be one of: ${RESIZE_CONFIG.fits.join(', ')}` };
+    }
+
+    const resolvedGravity = (gravity || presetConfig.gravity || RESIZE_CONFIG.defaultGravity) as ResizeGravity;
+    if (!RESIZE_CONFIG.gravities.includes(resolvedGravity)) {
+      return { isValid: false, error: `gravity must be one of: ${RESIZE_CONFIG.gravities.join(', ')}` };
+    }
+
+    // Content-aware crops only make sense when part of the image is cut away
+    if ((resolvedGravity === 'entropy' || resolvedGravity === 'attention') && resolvedFit !== 'cover') {
+      return { isValid: false, error: `gravity ${resolvedGravity} requires fit=cover` };
+    }
+
+    return {
+      isValid: true,
+      resize: { width: scaledWidth, height: scaledHeight, fit: resolvedFit, gravity: resolvedGravity },
+    };
+  }
+
+  /**
+   * Parse the optional minimum SSIM, a score between 0 and 1
+   */
+  static validateQualityFloor(minSSIM: string | null): { isValid: boolean; error?: string; minSSIM?: number } {
+    if (!minSSIM) {
+      return { isValid: true };
+    }
+
+    const value = Number(minSSIM);
+    if (!Number.isFinite(value) || value <= 0 || value >= 1) {
+      return { isValid: false, error: 'minSSIM must be a number between 0 and 1' };
+    }
+
+    return { isValid: true, minSSIM: value };
+  }
+
+  /**
+   * Parse and bound-check the optional target size and tolerance fields,
+   * falling back to the mode defaults when they are omitted
+   */
+  static validateTargetOptions(
+    targetBytes: string | null,
+    targetKB: string | null,
+    tolerance: string | null,
+    mode: CompressionMode
+  ): { isValid: boolean; error?: string; options?: TargetOptions } {
+    if (targetBytes && targetKB) {
+      return { isValid: false, error: 'Provide either targetBytes or targetKB, not both' };
+    }
+
+    let target: number = COMPRESSION_CONFIG.targetBytes;
+    if (targetBytes) {
+      target = Number(targetBytes);
+    } else if (targetKB) {
+      target = Math.round(Number(targetKB) * 1024);
+    }
+
+    if (!Number.isInteger(target)) {
+      return { isValid: false, error: 'Target size must be a whole number of bytes' };
+    }
+
+    if (target < COMPRESSION_CONFIG.minTargetBytes || target > COMPRESSION_CONFIG.maxTargetBytes) {
+      return {
+        isValid: false,
+        error: `Target size must be between ${COMPRESSION_CONFIG.minTargetBytes} and ${COMPRESSION_CONFIG.maxTargetBytes} bytes`,
+      };
+    }
+
+    let effectiveTolerance: number = mode === 'exact' ? COMPRESSION_CONFIG.toleranceExact : COMPRESSION_CONFIG.toleranceBalanced;
+    if (tolerance) {
+      effectiveTolerance = Number(tolerance);
+      if (!Number.isInteger(effectiveTolerance)) {
+        return { isValid: false, error: 'Tolerance must be a whole number of bytes' };
+      }
+      if (effectiveTolerance < 0 || effectiveTolerance > COMPRESSION_CONFIG.maxTolerance) {
+        return { isValid: false, error: `Tolerance must be between 0 and ${COMPRESSION_CONFIG.maxTolerance} bytes` };
+      }
+    }
+
+    return { isValid: true, options: { targetBytes: target, tolerance: effectiveTolerance } };
+  }
+}
+
+/**
+ * Response builder
+ */
+export class ResponseBuilder {
+  static buildSuccessResponse(
+    result: any,
+    inputSize: number,
+    filename: string,
+    format: OutputFormat
+  ): NextResponse {
+    const headers = new Headers();
+    headers.set('Content-Type', `image/${format}`);
+    headers.set('Content-Length', result.buffer.length.toString());
+    headers.set('X-Exact-Match', result.exactMatch ? '1' : '0');
+    headers.set('X-Exact-Strategy', result.exactStrategy || 'none');
+    headers.set('X-Padding-Bytes', (result.paddingBytes ?? 0).toString());
+    headers.set('X-Result-Bytes', result.size.toString());
+    headers.set('X-Compression-Quality', result.quality.toString());
+    headers.set('X-Iterations', result.iterations.toString());
+    headers.set('X-Processing-Time', result.processingTime.toString());
+    headers.set('X-Mode', result.mode);
+    headers.set('X-Target-Bytes', result.targetBytes.toString());
+    headers.set('X-Tolerance', result.tolerance.toString());
+    headers.set('X-Compression-Ratio', (inputSize / result.size).toFixed(2));
+    headers.set('X-Scale-Factor', result.scaleFactor?.toString() || '1');
+    headers.set('X-Palette-Reduced', result.paletteReduced ? '1' : '0');
+    headers.set('X-Metadata-Bytes', (result.metadataBytes ?? 0).toString());
+    if (result.sourceColorSpace) {
+      headers.set('X-Source-Color-Space', result.sourceColorSpace);
+      headers.set('X-Source-Bit-Depth', result.sourceBitDepth.toString());
+      headers.set('X-Output-Color-Space', result.outputColorSpace);
+    }
+    if (result.ssim !== undefined) {
+      headers.set('X-SSIM', result.ssim.toFixed(4));
+    }
+    headers.set('X-SSIM-Floor-Limited', result.ssimFloorLimited ? '1' : '0');
+    headers.set('X-Parallel-Tests', result.parallelTests?.toString() || '0');
+    headers.set('X-Cache-Hit', result.cacheHit ? '1' : '0');
+    headers.set('X-Queue-Length', encodePool.getStats().queueLength.toString());
+    headers.set('Content-Disposition', `attachment; filename="${filename}"`);
+
+    return new NextResponse(result.buffer as BodyInit, { headers });
+  }
+
+  static buildZipResponse(
+    stream: ReadableStream<Uint8Array>,
+    filename: string,
+    fileCount: number
+  ): NextResponse {
+    const headers = new Headers();
+    headers.set('Content-Type', 'application/zip');
+    headers.set('X-Batch-Files', fileCount.toString());
+    headers.set('Content-Disposition', `attachment; filename="${filename}"`);
+
+    return new NextResponse(stream, { headers });
+  }
+
+  static buildJobResponse(job: CompressionJob, status: number = 200): NextResponse {
+    return NextResponse.json({
+      ...ResponseBuilder.publicJob(job),
+      statusUrl: `/api/jobs/${job.id}`,
+      resultUrl: `/api/jobs/${job.id}/result`,
+    }, { status });
+  }
+
+  /**
+   * A job without the bookkeeping clients shouldn't see
+   */
+  static publicJob(job: CompressionJob): Omit<CompressionJob, 'owner' | 'charge'> {
+    const { owner: _owner, charge: _charge, ...rest } = job;
+    return rest;
+  }
+
+  static buildEventStreamResponse(stream: ReadableStream<Uint8Array>): NextResponse {
+    const headers = new Headers();
+    headers.set('Content-Type', 'text/event-stream');
+    headers.set('Cache-Control', 'no-cache, no-transform');
+    headers.set('Connection', 'keep-alive');
+
+    return new NextResponse(stream, { headers });
+  }
+
+  static buildMetricsResponse(body: string): NextResponse {
+    const headers = new Headers();
+    headers.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    headers.set('Cache-Control', 'no-store');
+
+    return new NextResponse(body, { headers });
+  }
+
+  static buildErrorResponse(error: string, status: number = 500): NextResponse {
+    return NextResponse.json({ error }, { status });
+  }
+
+  /**
+   * Refusal from the API key guard, with Retry-After on 429s
+   */
+  static buildApiKeyErrorResponse(check: ApiKeyCheck): NextResponse {
+    const headers = new Headers();
+    if (check.status === 401) {
+      headers.set('WWW-Authenticate', 'Bearer');
+    }
+    if (check.retryAfter !== undefined) {
+      headers.set('Retry-After', check.retryAfter.toString());
+    }
+
+    return NextResponse.json({ error: check.error }, { status: check.status ?? 403, headers });
+  }
+}
+
+/**
+ * Filename generator
+ */
+export class FilenameGenerator {
+  static generate(
+    originalName: string,
+    format: OutputFormat,
+    result: any,
+    mode: CompressionMode
+  ): string {
+    const sanitizedName = originalName
+      .toLowerCase()
+      .replace(/[^a-z0-9-]/g, '-')
+      .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '');
+
+    return `exact80--${sanitizedName}--${format}--${result.size}B--w${result.dimensions.width}h${result.dimensions.height}--q${result.quality}--m${mode.toUpperCase()}.${format}`;
+  }
+}
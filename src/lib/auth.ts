@@ -0,0 +1,342 @@
+/**
+ * API key authentication with per-key token bucket rate limits, daily
+ * request and byte quotas, and per-key format and file size limits
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ApiKeyRecord, ApiKeyUsage, ApiKeyCheck, ApiKeyCharge, OutputFormat } from './types';
+import { AUTH_CONFIG, COMPRESSION_CONFIG } from './config';
+import { logger } from './logger';
+
+const log = logger.child({ context: 'AUTH' });
+
+const ANONYMOUS_RATE_LIMIT = parseRateLimit(AUTH_CONFIG.anonymous.rateLimit);
+
+// Buckets not touched for this long have refilled and are dropped
+const BUCKET_IDLE_TIME = 24 * 60 * 60 * 1000;
+
+/**
+ * Where keys and their daily usage live
+ */
+export interface ApiKeyStore {
+  findKey(keyHash: string): Promise<ApiKeyRecord | null>;
+  getUsage(keyId: string, day: string): Promise<ApiKeyUsage>;
+  // Add to a key's usage for the day and return the new totals; negative
+  // amounts take back a reservation
+  addUsage(keyId: string, day: string, requests: number, bytes: number): Promise<ApiKeyUsage>;
+}
+
+/**
+ * Keys read from a JSON file ({ "keys": [...] }) and re-read when it
+ * changes, so keys can be added or revoked without a restart. Usage is kept
+ * in memory and written to a second file shortly after each change.
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private keysFile: string;
+  private usageFile: string;
+  private reloadInterval: number;
+  private flushDelay: number;
+  private keys = new Map<string, ApiKeyRecord>();
+  private keysModified = 0;
+  private checkedAt = 0;
+  private usage: Promise<Map<string, ApiKeyUsage>> | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(keysFile: string, usageFile: string, reloadInterval: number, flushDelay: number) {
+    this.keysFile = keysFile;
+    this.usageFile = usageFile;
+    this.reloadInterval = reloadInterval;
+    this.flushDelay = flushDelay;
+  }
+
+  async findKey(keyHash: string): Promise<ApiKeyRecord | null> {
+    await this.reloadKeys();
+    return this.keys.get(keyHash) ?? null;
+  }
+
+  async getUsage(keyId: string, day: string): Promise<ApiKeyUsage> {
+    const usage = (await this.loadUsage()).get(keyId);
+    return usage?.day === day ? { ...usage } : { day, requests: 0, bytes: 0 };
+  }
+
+  async addUsage(keyId: string, day: string, requests: number, bytes: number): Promise<ApiKeyUsage> {
+    const all = await this.loadUsage();
+    const current = all.get(keyId);
+    const base = current?.day === day ? current : { day, requests: 0, bytes: 0 };
+    const usage = { day, requests: base.requests + requests, bytes: base.bytes + bytes };
+    all.set(keyId, usage);
+    this.scheduleFlush();
+    return { ...usage };
+  }
+
+  /**
+   * Re-read the keys file if it changed since the last check. A file that
+   * fails to parse keeps the previous keys in place.
+   */
+  private async reloadKeys(): Promise<void> {
+    if (Date.now() - this.checkedAt < this.reloadInterval) return;
+    this.checkedAt = Date.now();
+
+    try {
+      const { mtimeMs } = await fs.stat(this.keysFile);
+      if (mtimeMs === this.keysModified) return;
+
+      const { keys } = JSON.parse(await fs.readFile(this.keysFile, 'utf8')) as { keys?: ApiKeyRecord[] };
+      this.keys = new Map((keys ?? []).map(key => [key.keyHash, key]));
+      this.keysModified = mtimeMs;
+      log.info(`Loaded ${this.keys.size} API keys from ${this.keysFile}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.keys = new Map();
+        this.keysModified = 0;
+        return;
+      }
+      log.error(`Failed to load API keys from ${this.keysFile}`, error);
+    }
+  }
+
+  private loadUsage(): Promise<Map<string, ApiKeyUsage>> {
+    this.usage ??= fs.readFile(this.usageFile, 'utf8')
+      .then(data => new Map(Object.entries(JSON.parse(data) as Record<string, ApiKeyUsage>)))
+      .catch(error => {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          log.error(`Failed to read API key usage from ${this.usageFile}, starting from zero`, error);
+        }
+        return new Map<string, ApiKeyUsage>();
+      });
+    return this.usage;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, this.flushDelay);
+    this.flushTimer.unref();
+  }
+
+  private async flush(): Promise<void> {
+    try {
+      // Usage from earlier days no longer counts, and anonymous callers
+      // would otherwise leave one entry per client behind
+      const all = await this.loadUsage();
+      for (const [keyId, usage] of all) {
+        if (usage.day !== today()) all.delete(keyId);
+      }
+      const usage = Object.fromEntries(all);
+      await fs.mkdir(path.dirname(this.usageFile), { recursive: true });
+      await fs.writeFile(`${this.usageFile}.tmp`, JSON.stringify(usage));
+      await fs.rename(`${this.usageFile}.tmp`, this.usageFile);
+    } catch (error) {
+      log.error(`Failed to write API key usage to ${this.usageFile}`, error);
+    }
+  }
+}
+
+/**
+ * In-process token buckets, one per key
+ */
+class TokenBuckets {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private prunedAt = Date.now();
+
+  /**
+   * Take one token, returning 0 on success or the seconds until one is free
+   */
+  take(keyId: string, limit: { capacity: number; refillPerSecond: number }): number {
+    const now = Date.now();
+    const bucket = this.buckets.get(keyId) ?? { tokens: limit.capacity, updatedAt: now };
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(keyId, bucket);
+    this.prune(now);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return limit.refillPerSecond > 0 ? Math.ceil((1 - bucket.tokens) / limit.refillPerSecond) : secondsUntilNextDay();
+  }
+
+  private prune(now: number): void {
+    if (now - this.prunedAt < BUCKET_IDLE_TIME) return;
+    this.prunedAt = now;
+    for (const [keyId, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > BUCKET_IDLE_TIME) this.buckets.delete(keyId);
+    }
+  }
+}
+
+/**
+ * Parse a "capacity/refillPerSecond" rate limit such as 10/0.5
+ */
+function parseRateLimit(value: string | undefined): ApiKeyRecord['rateLimit'] {
+  if (!value) return undefined;
+  const [capacity, refillPerSecond] = value.split('/').map(Number);
+  if (!(capacity >= 1) || !(refillPerSecond >= 0)) {
+    log.warn(`Ignoring invalid anonymous rate limit ${value}, expected capacity/refillPerSecond`);
+    return undefined;
+  }
+  return { capacity, refillPerSecond };
+}
+
+/**
+ * Stands in for a request without a key while keys are optional. Each
+ * client IP gets its own record, so anonymous callers don't share a bucket
+ * or quotas, and anonymous jobs belong to the client that submitted them.
+ */
+export function anonymousKey(request: Request): ApiKeyRecord {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  const client = forwarded || request.headers.get('x-real-ip')?.trim() || 'unknown';
+  return {
+    id: `anonymous:${client}`,
+    keyHash: '',
+    anonymous: true,
+    rateLimit: ANONYMOUS_RATE_LIMIT,
+    dailyRequests: AUTH_CONFIG.anonymous.dailyRequests,
+    dailyBytes: AUTH_CONFIG.anonymous.dailyBytes,
+  };
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Daily quotas reset at midnight UTC
+function secondsUntilNextDay(): number {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.max(1, Math.ceil((midnight - now.getTime()) / 1000));
+}
+
+export class ApiKeyGuard {
+  private store: ApiKeyStore;
+  private buckets = new TokenBuckets();
+
+  constructor(store: ApiKeyStore) {
+    this.store = store;
+  }
+
+  /**
+   * Identify the caller from an `Authorization: Bearer` or `X-API-Key`
+   * header, without spending from its rate limit
+   */
+  async identify(request: Request): Promise<ApiKeyCheck> {
+    const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const secret = (bearer ?? request.headers.get('x-api-key'))?.trim();
+
+    if (!secret) {
+      return AUTH_CONFIG.required
+        ? { allowed: false, status: 401, error: 'API key required' }
+        : { allowed: true, key: anonymousKey(request) };
+    }
+
+    const key = await this.store.findKey(ApiKeyGuard.hashKey(secret));
+    if (!key || key.disabled) {
+      return { allowed: false, status: 401, error: 'Invalid API key' };
+    }
+    return { allowed: true, key };
+  }
+
+  /**
+   * Identify the caller and spend a token from its bucket. Runs before the
+   * body is read.
+   */
+  async authorize(request: Request): Promise<ApiKeyCheck> {
+    const identity = await this.identify(request);
+    if (!identity.allowed) {
+      return identity;
+    }
+    const key = identity.key!;
+
+    // Anonymous callers only have a rate limit when one is configured
+    const limit = key.rateLimit ?? (key.anonymous ? undefined : AUTH_CONFIG.defaultRateLimit);
+    const wait = limit ? this.buckets.take(key.id, limit) : 0;
+    if (wait > 0) {
+      return { allowed: false, key, status: 429, error: 'Rate limit exceeded', retryAfter: wait };
+    }
+
+    if (key.dailyRequests !== undefined) {
+      const usage = await this.store.getUsage(key.id, today());
+      if (usage.requests >= key.dailyRequests) {
+        return { allowed: false, key, status: 429, error: 'Daily request quota exceeded', retryAfter: secondsUntilNextDay() };
+      }
+    }
+
+    return { allowed: true, key };
+  }
+
+  /**
+   * Check the parsed upload against the key's formats and daily quotas and
+   * count it towards them. The returned charge can be given back with
+   * refund() if the request goes no further.
+   */
+  async admitUpload(key: ApiKeyRecord, formats: readonly OutputFormat[], bytes: number): Promise<ApiKeyCheck> {
+    const refused = formats.find(format => key.allowedFormats && !key.allowedFormats.includes(format));
+    if (refused) {
+      return { allowed: false, key, status: 403, error: `Output format ${refused} is not allowed for this API key` };
+    }
+
+    if (key.dailyBytes !== undefined && bytes > key.dailyBytes) {
+      return { allowed: false, key, status: 413, error: `Upload of ${bytes} bytes exceeds the daily quota of ${key.dailyBytes} bytes` };
+    }
+
+    if (key.dailyRequests === undefined && key.dailyBytes === undefined && key.anonymous) {
+      return { allowed: true, key };
+    }
+
+    // Count the upload first and take it back if it went over, so concurrent
+    // requests can't both slip under the quota
+    const charge: ApiKeyCharge = { keyId: key.id, day: today(), requests: 1, bytes };
+    const usage = await this.store.addUsage(charge.keyId, charge.day, charge.requests, charge.bytes);
+    const overRequests = key.dailyRequests !== undefined && usage.requests > key.dailyRequests;
+    const overBytes = key.dailyBytes !== undefined && usage.bytes > key.dailyBytes;
+    if (overRequests || overBytes) {
+      await this.store.addUsage(charge.keyId, charge.day, -charge.requests, -charge.bytes);
+      return {
+        allowed: false,
+        key,
+        status: 429,
+        error: overRequests ? 'Daily request quota exceeded' : 'Daily byte quota exceeded',
+        retryAfter: secondsUntilNextDay(),
+      };
+    }
+
+    return { allowed: true, key, charge };
+  }
+
+  /**
+   * Give back all of a charge, or the given part of it, for a request that
+   * was turned away or failed after it was admitted
+   */
+  async refund(charge: ApiKeyCharge | undefined, part: { requests: number; bytes: number } = charge ?? { requests: 0, bytes: 0 }): Promise<void> {
+    if (!charge || (part.requests === 0 && part.bytes === 0)) return;
+    try {
+      await this.store.addUsage(charge.keyId, charge.day, -part.requests, -part.bytes);
+    } catch (error) {
+      log.warn(`Failed to refund usage of ${charge.keyId}`, error);
+    }
+  }
+
+  /**
+   * Largest upload accepted for a key
+   */
+  maxFileSize(key: ApiKeyRecord | undefined): number {
+    return key?.maxFileSize ?? COMPRESSION_CONFIG.maxFileSize;
+  }
+
+  static hashKey(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
+
+function createApiKeyStore(): ApiKeyStore {
+  const keysFile = AUTH_CONFIG.keysFile || path.join(process.cwd(), 'data', 'api-keys.json');
+  const usageFile = AUTH_CONFIG.usageFile || keysFile.replace(/(\.json)?$/, '.usage.json');
+  return new FileApiKeyStore(keysFile, usageFile, AUTH_CONFIG.reloadInterval, AUTH_CONFIG.usageFlushDelay);
+}
+
+export const apiKeyGuard = new ApiKeyGuard(createApiKeyStore());
@@ -1,88 +1,451 @@
 /**
- * In-memory cache system for compression results
+ * Cache system for compression results with pluggable storage backends
  */
 
-import { createHash } from 'crypto';
-import { OutputFormat, CompressionMode } from './types';
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs, Stats } from 'fs';
+import os from 'os';
+import path from 'path';
+import { OutputFormat, CompressionMode, RequestOptions, CompressionResult } from './types';
 import { CACHE_CONFIG } from './config';
 import { logger } from './logger';
+import { RespClient } from './resp';
 
-export class CompressionCache {
-  private cache = new Map<string, Buffer>();
-  private timestamps = new Map<string, number>();
-  private hitCount = 0;
-  private missCount = 0;
+export interface CacheBackendStats {
+  entries: number | null; // Null when the backend can't tell cheaply
+  bytes: number | null;
+}
+
+/**
+ * Storage for cached results. Entries expire after the TTL the backend was
+ * created with.
+ */
+export interface CacheBackend {
+  get(key: string): Promise<Buffer | null>;
+  set(key: string, value: Buffer): Promise<void>;
+  delete(key: string): Promise<void>;
+  cleanup(): Promise<void>;
+  clear(): Promise<void>;
+  getStats(): CacheBackendStats;
+}
 
-  generateKey(buffer: Buffer, format: OutputFormat, mode: CompressionMode): string {
-    const hash = createHash('md5').update(buffer).digest('hex');
-    return `${hash}-${format}-${mode}`;
+/**
+ * In-process LRU bounded by the total size of the cached buffers
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, { value: Buffer; storedAt: number }>();
+  private bytes = 0;
+  private maxBytes: number;
+  private ttl: number;
+
+  constructor(maxBytes: number, ttl: number) {
+    this.maxBytes = maxBytes;
+    this.ttl = ttl;
   }
 
-  get(key: string): Buffer | null {
-    if (!this.cache.has(key)) {
-      this.missCount++;
+  async get(key: string): Promise<Buffer | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() - entry.storedAt >= this.ttl) {
+      this.remove(key);
       return null;
     }
 
-    const timestamp = this.timestamps.get(key);
-    if (!timestamp || !this.isValid(timestamp)) {
-      this.delete(key);
-      this.missCount++;
+    // Map order is recency order: move the hit to the back
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: Buffer): Promise<void> {
+    this.remove(key);
+    if (value.length > this.maxBytes) return;
+
+    this.entries.set(key, { value, storedAt: Date.now() });
+    this.bytes += value.length;
+    while (this.bytes > this.maxBytes) {
+      this.remove(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async cleanup(): Promise<void> {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (now - entry.storedAt >= this.ttl) {
+        this.remove(key);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  getStats(): CacheBackendStats {
+    return { entries: this.entries.size, bytes: this.bytes };
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.bytes -= entry.value.length;
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Cache kept as one file per entry in a directory, so results survive a
+ * restart. Expiry follows each file's modification time and eviction its
+ * access time, which reads refresh.
+ */
+export class FileCacheBackend implements CacheBackend {
+  private directory: string;
+  private maxBytes: number;
+  private ttl: number;
+  private ready: Promise<void>;
+  private entries = 0; // Recounted by every scan; overwrites inflate them until then
+  private bytes = 0;
+  private scanning: Promise<void> | null = null;
+
+  constructor(directory: string, maxBytes: number, ttl: number) {
+    this.directory = directory;
+    this.maxBytes = maxBytes;
+    this.ttl = ttl;
+    this.ready = fs.mkdir(directory, { recursive: true }).then(() => this.scan());
+    this.ready.catch(error => {
+      logger.warn(`Cache directory ${directory} is unusable`, error, undefined, 'CACHE');
+    });
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    await this.ready;
+    const file = this.pathFor(key);
+    const stats = await this.stat(file);
+    if (!stats) return null;
+
+    if (Date.now() - stats.mtimeMs >= this.ttl) {
+      await this.delete(key);
       return null;
     }
 
-    this.hitCount++;
-    return this.cache.get(key)!;
+    let value: Buffer;
+    try {
+      value = await fs.readFile(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+    await fs.utimes(file, new Date(), stats.mtime);
+    return value;
   }
 
-  set(key: string, buffer: Buffer): void {
-    this.cache.set(key, buffer);
-    this.timestamps.set(key, Date.now());
+  async set(key: string, value: Buffer): Promise<void> {
+    await this.ready;
+    if (value.length > this.maxBytes) return;
+
+    const file = this.pathFor(key);
+    const temp = `${file}.${randomBytes(4).toString('hex')}.tmp`;
+    await fs.writeFile(temp, value);
+    await fs.rename(temp, file);
+
+    this.entries++;
+    this.bytes += value.length;
+    if (this.bytes > this.maxBytes) {
+      await this.scan();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.pathFor(key);
+    const stats = await this.stat(file);
+    if (!stats) return;
+
+    await fs.rm(file, { force: true });
+    this.entries--;
+    this.bytes -= stats.size;
+  }
+
+  async cleanup(): Promise<void> {
+    await this.ready;
+    await this.scan();
+  }
+
+  async clear(): Promise<void> {
+    await this.ready;
+    const files = await fs.readdir(this.directory);
+    await Promise.all(
+      files
+        .filter(file => file.endsWith('.bin'))
+        .map(file => fs.rm(path.join(this.directory, file), { force: true }))
+    );
+    this.entries = 0;
+    this.bytes = 0;
   }
 
-  delete(key: string): void {
-    this.cache.delete(key);
-    this.timestamps.delete(key);
+  getStats(): CacheBackendStats {
+    return { entries: this.entries, bytes: this.bytes };
   }
 
-  private isValid(timestamp: number): boolean {
-    return Date.now() - timestamp < CACHE_CONFIG.ttl;
+  /**
+   * Drop expired entries, then the least recently read ones until the
+   * directory fits, and recount what is left
+   */
+  private scan(): Promise<void> {
+    this.scanning ??= this.trim().finally(() => {
+      this.scanning = null;
+    });
+    return this.scanning;
   }
 
-  cleanup(): void {
+  private async trim(): Promise<void> {
     const now = Date.now();
-    const keysToDelete: string[] = [];
+    const names = (await fs.readdir(this.directory)).filter(name => name.endsWith('.bin'));
+    const files = await Promise.all(names.map(async name => {
+      const file = path.join(this.directory, name);
+      const stats = await this.stat(file);
+      return stats ? { file, stats } : null;
+    }));
+
+    const live: { file: string; stats: Stats }[] = [];
+    let bytes = 0;
+    for (const entry of files) {
+      if (!entry) continue;
+      if (now - entry.stats.mtimeMs >= this.ttl) {
+        await fs.rm(entry.file, { force: true });
+      } else {
+        live.push(entry);
+        bytes += entry.stats.size;
+      }
+    }
+
+    live.sort((a, b) => a.stats.atimeMs - b.stats.atimeMs);
+    while (bytes > this.maxBytes && live.length > 0) {
+      const oldest = live.shift()!;
+      await fs.rm(oldest.file, { force: true });
+      bytes -= oldest.stats.size;
+    }
+
+    const removed = names.length - live.length;
+    if (removed > 0) {
+      logger.debug(`Cache scan: removed ${removed} expired or evicted files`, null, undefined, 'CACHE');
+    }
+    this.entries = live.length;
+    this.bytes = bytes;
+  }
+
+  private async stat(file: string): Promise<Stats | null> {
+    try {
+      return await fs.stat(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.bin`);
+  }
+}
+
+/**
+ * Cache in a Redis-compatible server, shared by every instance. The server
+ * expires entries itself and its maxmemory policy bounds the size.
+ */
+export class RedisCacheBackend implements CacheBackend {
+  private client: RespClient;
+  private prefix: string;
+  private ttl: number;
+
+  constructor(client: RespClient, prefix: string, ttl: number) {
+    this.client = client;
+    this.prefix = prefix;
+    this.ttl = ttl;
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const value = await this.client.command(['GET', this.prefix + key]);
+    return Buffer.isBuffer(value) ? value : null;
+  }
 
-    for (const [key, timestamp] of this.timestamps.entries()) {
-      if (now - timestamp > CACHE_CONFIG.ttl) {
-        keysToDelete.push(key);
+  async set(key: string, value: Buffer): Promise<void> {
+    await this.client.command(['SET', this.prefix + key, value, 'PX', this.ttl]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command(['DEL', this.prefix + key]);
+  }
+
+  async cleanup(): Promise<void> {
+    // Keys carry their own expiry
+  }
+
+  async clear(): Promise<void> {
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.command(['SCAN', cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 100]) as [Buffer, Buffer[]];
+      cursor = next.toString();
+      if (keys.length > 0) {
+        await this.client.command(['DEL', ...keys]);
       }
+    } while (cursor !== '0');
+  }
+
+  getStats(): CacheBackendStats {
+    return { entries: null, bytes: null };
+  }
+}
+
+/**
+ * Result cache over a backend. Each entry holds the full result: a length-
+ * prefixed JSON header with everything but the image, then the image bytes.
+ * Backend failures are logged and treated as misses, so an unreachable
+ * cache never fails a compression.
+ */
+export class CompressionCache {
+  private backend: CacheBackend;
+  private hitCount = 0;
+  private missCount = 0;
+  private errorCount = 0;
+
+  constructor(backend: CacheBackend) {
+    this.backend = backend;
+  }
+
+  /**
+   * SHA-256 of the image content and every request option, so any option
+   * that changes the output changes the key
+   */
+  generateKey(buffer: Buffer, format: OutputFormat, mode: CompressionMode, options: RequestOptions): string {
+    return createHash('sha256')
+      .update(buffer)
+      .update('\0')
+      .update(CompressionCache.canonicalJson({ format, mode, options }))
+      .digest('hex');
+  }
+
+  async get(key: string): Promise<CompressionResult | null> {
+    let result: CompressionResult | null = null;
+    try {
+      const entry = await this.backend.get(key);
+      result = entry && CompressionCache.decode(entry);
+    } catch (error) {
+      this.errorCount++;
+      logger.warn('Cache read failed, treating as a miss', error, undefined, 'CACHE');
     }
 
-    keysToDelete.forEach(key => this.delete(key));
-    
-    if (keysToDelete.length > 0) {
-      logger.debug(`Cache cleanup: removed ${keysToDelete.length} expired entries`);
+    if (result) {
+      this.hitCount++;
+    } else {
+      this.missCount++;
+    }
+    return result;
+  }
+
+  async set(key: string, result: CompressionResult): Promise<void> {
+    try {
+      await this.backend.set(key, CompressionCache.encode(result));
+    } catch (error) {
+      this.errorCount++;
+      logger.warn('Cache write failed', error, undefined, 'CACHE');
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.backend.delete(key);
+    } catch (error) {
+      this.errorCount++;
+      logger.warn('Cache delete failed', error, undefined, 'CACHE');
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    try {
+      await this.backend.cleanup();
+    } catch (error) {
+      this.errorCount++;
+      logger.warn('Cache cleanup failed', error, undefined, 'CACHE');
     }
   }
 
   getStats() {
     const total = this.hitCount + this.missCount;
+    const { entries, bytes } = this.backend.getStats();
     return {
-      size: this.cache.size,
+      size: entries,
+      bytes,
       hitCount: this.hitCount,
       missCount: this.missCount,
+      errorCount: this.errorCount,
       hitRate: total > 0 ? this.hitCount / total : 0,
     };
   }
 
-  clear(): void {
-    this.cache.clear();
-    this.timestamps.clear();
+  async clear(): Promise<void> {
+    await this.backend.clear();
     this.hitCount = 0;
     this.missCount = 0;
+    this.errorCount = 0;
+  }
+
+  private static encode(result: CompressionResult): Buffer {
+    const { buffer, cacheHit, ...metadata } = result;
+    const header = Buffer.from(JSON.stringify(metadata));
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(header.length);
+    return Buffer.concat([length, header, buffer]);
+  }
+
+  private static decode(entry: Buffer): CompressionResult {
+    const headerEnd = 4 + entry.readUInt32BE(0);
+    const metadata: Omit<CompressionResult, 'buffer'> = JSON.parse(entry.toString('utf8', 4, headerEnd));
+    return { ...metadata, buffer: entry.subarray(headerEnd), cacheHit: true };
+  }
+
+  /**
+   * JSON with object keys sorted, so equal options always hash the same
+   */
+  private static canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => CompressionCache.canonicalJson(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${CompressionCache.canonicalJson(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
   }
 }
 
-export const compressionCache = new CompressionCache();
+/**
+ * Backend selected by CACHE_BACKEND
+ */
+function createCacheBackend(): CacheBackend {
+  switch (CACHE_CONFIG.backend) {
+    case 'redis':
+      return new RedisCacheBackend(
+        new RespClient(CACHE_CONFIG.redisUrl, CACHE_CONFIG.redisTimeout),
+        CACHE_CONFIG.redisKeyPrefix,
+        CACHE_CONFIG.ttl
+      );
+    case 'file':
+      return new FileCacheBackend(
+        CACHE_CONFIG.directory || path.join(os.tmpdir(), 'pixelpress-cache'),
+        CACHE_CONFIG.maxDiskBytes,
+        CACHE_CONFIG.ttl
+      );
+    default:
+      return new MemoryCacheBackend(CACHE_CONFIG.maxMemoryBytes, CACHE_CONFIG.ttl);
+  }
+}
 
+export const compressionCache = new CompressionCache(createCacheBackend());
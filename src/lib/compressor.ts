@@ -8,93 +8,168 @@ import {
   CompressionMode, 
   CompressionResult, 
   QualityTestResult, 
+  QualityTestOutcome,
   ScalingResult,
-  AdaptiveHeuristics 
+  AdaptiveHeuristics,
+  CompressionOptions,
+  CompressionPhase,
+  ExactStrategy,
+  ResizeOptions,
+  MetadataOptions,
+  ColorSpaceTarget,
+  ImageMetadata
 } from './types';
-import { COMPRESSION_CONFIG } from './config';
-import { logger } from './logger';
+import { COMPRESSION_CONFIG, SCALING_CONFIG, PADDING_CONFIG } from './config';
+import { logger, Logger } from './logger';
 import { ImageEncoder } from './encoder';
+import { SSIMScorer } from './quality';
+import { ExactSizePadder } from './padding';
+import { encodePool } from './encode-pool';
 
 export class ParallelCompressor {
   private targetSize: number;
   private tolerance: number;
   private maxWallTime: number;
   private mode: CompressionMode;
-  private requestId: string;
+  private jobId: string; // Encode pool job, one per compression even when a request runs several
+  private log: Logger;
   private startTime: number;
   private heuristics: AdaptiveHeuristics;
-  private memoryUsage: number = 0;
   private encoder: ImageEncoder;
-
-  constructor(mode: CompressionMode = 'balanced', heuristics: AdaptiveHeuristics) {
+  private onProgress?: CompressionOptions['onProgress'];
+  private signal?: AbortSignal;
+  private phase: CompressionPhase = 'quality-test';
+  private encodeCount: number = 0;
+  private bestSoFar: QualityTestResult | null = null;
+  private minSSIM?: number;
+  private resize?: ResizeOptions;
+  private metadata?: MetadataOptions;
+  private metadataBytes: number = 0;
+  private colorSpace?: ColorSpaceTarget;
+  private inputMetadata: ImageMetadata | null = null;
+  private scorer: SSIMScorer | null = null;
+  private floorRejections: number = 0;
+  private paddable: ScalingResult | null = null;
+  private oversized = new Map<number, number>(); // Lowest quality over the target at each scale, in exact mode
+
+  constructor(mode: CompressionMode = 'balanced', heuristics: AdaptiveHeuristics, options: CompressionOptions = {}) {
     this.mode = mode;
-    this.targetSize = COMPRESSION_CONFIG.targetBytes;
-    this.tolerance = mode === 'exact' ? COMPRESSION_CONFIG.toleranceExact : COMPRESSION_CONFIG.toleranceBalanced;
-    this.maxWallTime = mode === 'exact' ? COMPRESSION_CONFIG.maxWallTimeExact : COMPRESSION_CONFIG.maxWallTimeBalanced;
-    this.requestId = uuidv4();
+    this.targetSize = options.targetBytes ?? COMPRESSION_CONFIG.targetBytes;
+    this.tolerance = options.tolerance ?? (mode === 'exact' ? COMPRESSION_CONFIG.toleranceExact : COMPRESSION_CONFIG.toleranceBalanced);
+    this.maxWallTime = options.maxWallTime ?? (mode === 'exact' ? COMPRESSION_CONFIG.maxWallTimeExact : COMPRESSION_CONFIG.maxWallTimeBalanced);
+    this.jobId = uuidv4();
+    this.log = logger.child({ requestId: options.requestId ?? this.jobId, context: 'COMPRESSOR' });
     this.startTime = Date.now();
     this.heuristics = heuristics;
-    this.encoder = new ImageEncoder();
+    this.encoder = new ImageEncoder(this.log);
+    this.onProgress = options.onProgress;
+    this.signal = options.signal;
+    this.minSSIM = options.minSSIM;
+    this.resize = options.resize;
+    this.metadata = options.metadata;
+    this.colorSpace = options.colorSpace;
   }
 
   /**
    * Main compression method with three-phase approach
    */
   async compress(inputBuffer: Buffer, format: OutputFormat): Promise<CompressionResult> {
-    logger.info(`Starting compression in ${this.mode} mode for ${format}`, null, this.requestId, 'COMPRESSOR');
+    this.log.info(`Starting compression in ${this.mode} mode for ${format}, target=${this.targetSize}±${this.tolerance} bytes`);
     
     const inputSize = inputBuffer.length;
     const inputDims = await this.encoder.extractMetadata(inputBuffer);
+    this.inputMetadata = inputDims;
+    // Score against the requested geometry, so crops and letterboxing aren't
+    // penalised. Only needed when there is a floor to enforce.
+    if (this.minSSIM !== undefined) {
+      this.scorer = new SSIMScorer(this.resize ? await this.encoder.renderGeometry(inputBuffer, this.resize, { signal: this.signal }) : inputBuffer);
+    }
     
-    logger.info(`Input: ${inputSize} bytes, ${inputDims.width}x${inputDims.height}`, null, this.requestId, 'COMPRESSOR');
-    logger.info(`Heuristics: complexity=${this.heuristics.imageComplexity.toFixed(2)}, estimatedQuality=${this.heuristics.estimatedQuality}, maxIterations=${this.heuristics.maxIterations}`, null, this.requestId, 'COMPRESSOR');
+    this.log.info(`Input: ${inputSize} bytes, ${inputDims.width}x${inputDims.height}, ${inputDims.colorSpace} ${inputDims.bitDepth}-bit`);
+    // Kept metadata is part of every candidate's size, so it eats into the target
+    this.metadataBytes = await this.encoder.measureMetadataBytes(inputBuffer, format, this.metadata, this.colorSpace, { signal: this.signal });
+    if (this.metadataBytes > 0) {
+      this.log.info(`Metadata (${this.metadata?.policy ?? 'strip-all'}, colour ${this.colorSpace ?? 'srgb'}) adds ~${this.metadataBytes} bytes`);
+    }
+    if (this.metadataBytes >= this.targetSize) {
+      throw new Error(`Kept metadata alone takes ${this.metadataBytes} bytes, more than the ${this.targetSize}-byte target`);
+    }
+    if (this.resize) {
+      this.log.info(`Resize: ${this.resize.width ?? 'auto'}x${this.resize.height ?? 'auto'} ${this.resize.fit}/${this.resize.gravity}`);
+    }
+    this.log.info(`Heuristics: complexity=${this.heuristics.imageComplexity.toFixed(2)}, estimatedQuality=${this.heuristics.estimatedQuality}, maxIterations=${this.heuristics.maxIterations}`);
     
     let result: CompressionResult;
     let totalIterations = 0;
     
     try {
       // Phase 1: Parallel quality testing with adaptive heuristics
-      const initialResults = await this.parallelQualityTest(inputBuffer, format);
+      this.enterPhase('quality-test');
+      let initialResults = await this.parallelQualityTest(inputBuffer, format);
+      if (initialResults.length === 0 && this.minSSIM !== undefined) {
+        // Every starting quality broke the floor, retry near the top of the range
+        this.log.debug(`No initial quality met minSSIM=${this.minSSIM}, retrying at high quality`);
+        initialResults = await this.parallelQualityTest(inputBuffer, format, [95, 100]);
+      }
       totalIterations += initialResults.length;
 
+      if (initialResults.length === 0 && this.floorRejections > 0) {
+        throw new Error(`No quality setting reaches the minimum SSIM of ${this.minSSIM}`);
+      }
+
       if (initialResults.length === 0) {
         throw new Error('Initial quality testing failed');
       }
 
-      // Phase 2: Parallel binary search
-      const binaryResult = await this.parallelBinarySearch(inputBuffer, format, initialResults);
+      // Phase 2: Interpolation search on the size curve
+      this.enterPhase('binary-search');
+      const binaryResult = await this.interpolationSearch(inputBuffer, format, initialResults);
       totalIterations += binaryResult.iterations;
       
       if (this.isWithinTolerance(binaryResult.size)) {
-        result = this.createResult(binaryResult, inputDims, totalIterations, initialResults.length);
-        logger.info(`Compression completed in phase 2: ${result.size} bytes`, null, this.requestId, 'COMPRESSOR');
+        result = await this.createResult(binaryResult, format, inputBuffer, totalIterations, initialResults.length);
+        this.log.info(`Compression completed in phase 2: ${result.size} bytes`);
         return result;
       }
       
-      // Phase 3: Progressive scaling (if needed and time permits)
-      if (!this.checkTimeout()) {
+      // Phase 3: Progressive scaling (if the output is still too large and time permits).
+      // A full-size encode under the target beats a downscaled one, since
+      // createResult refines its quality before padding, and an explicitly
+      // requested geometry is never shrunk.
+      if (binaryResult.size > this.targetSize && !this.paddable && !this.resize && !this.checkTimeout()) {
         try {
-          const scaleResult = await this.progressiveScaling(inputBuffer, format);
+          this.enterPhase('progressive-scaling');
+          const scaleResult = await this.progressiveScaling(inputBuffer, format, this.heuristics.estimatedQuality);
           totalIterations += scaleResult.iterations;
           
-          if (this.isWithinTolerance(scaleResult.size)) {
-            result = this.createResult(scaleResult, inputDims, totalIterations, initialResults.length, scaleResult.scaleFactor);
-            logger.info(`Compression completed in phase 3: ${result.size} bytes`, null, this.requestId, 'COMPRESSOR');
+          if (
+            this.isWithinTolerance(scaleResult.size) ||
+            Math.abs(scaleResult.size - this.targetSize) < Math.abs(binaryResult.size - this.targetSize)
+          ) {
+            result = await this.createResult(scaleResult, format, inputBuffer, totalIterations, initialResults.length, scaleResult.scaleFactor);
+            this.log.info(`Compression completed in phase 3: ${result.size} bytes`);
             return result;
           }
         } catch (error) {
-          logger.warn('Progressive scaling failed, using binary search result', error, this.requestId, 'COMPRESSOR');
+          this.throwIfStopped();
+          this.log.warn('Progressive scaling failed, using binary search result', error);
         }
       }
       
       // Return best available result
-      result = this.createResult(binaryResult, inputDims, totalIterations, initialResults.length);
-      logger.info(`Compression completed with best available result: ${result.size} bytes`, null, this.requestId, 'COMPRESSOR');
+      result = await this.createResult(binaryResult, format, inputBuffer, totalIterations, initialResults.length);
+      this.log.info(`Compression completed with best available result: ${result.size} bytes`);
       return result;
       
     } catch (error) {
-      logger.error('Compression failed', error, this.requestId, 'COMPRESSOR');
+      if (this.signal?.aborted) {
+        this.log.warn(`Compression cancelled during ${this.phase} after ${this.encodeCount} encodes`);
+      } else {
+        this.log.error('Compression failed', error);
+      }
       throw error;
+    } finally {
+      encodePool.releaseJob(this.jobId);
     }
   }
 
@@ -104,181 +179,413 @@ export class ParallelCompressor {
   private async parallelQualityTest(
     buffer: Buffer, 
     format: OutputFormat,
-    qualities?: number[]
+    qualities?: number[],
+    scaleFactor: number = 1
   ): Promise<QualityTestResult[]> {
     const testQualities = qualities || this.generateInitialQualities();
-    logger.debug(`Testing ${testQualities.length} qualities in parallel: ${testQualities.join(', ')}`, null, this.requestId, 'COMPRESSOR');
-    
-    const promises = testQualities.map(async (quality) => {
-      try {
-        const result = await this.encoder.encode(buffer, quality, format);
-        this.trackMemory(result);
-        return {
-          quality,
-          size: result.length,
-          buffer: result
-        };
-      } catch (error) {
-        logger.warn(`Error testing quality ${quality}`, error, this.requestId, 'COMPRESSOR');
-        return null;
+    this.log.debug(`Testing ${testQualities.length} qualities in parallel at scale ${scaleFactor}: ${testQualities.join(', ')}`);
+
+    const outcomes = await Promise.all(testQualities.map(quality => this.testQuality(buffer, format, quality, scaleFactor)));
+    return outcomes.flatMap(outcome => outcome.status === 'ok' ? [outcome.result] : []);
+  }
+
+  /**
+   * Encode one quality at one scale, telling a candidate the perceptual
+   * floor rejected apart from an encode that failed
+   */
+  private async testQuality(
+    buffer: Buffer,
+    format: OutputFormat,
+    quality: number,
+    scaleFactor: number
+  ): Promise<QualityTestOutcome> {
+    try {
+      const result = await this.encoder.encode(buffer, quality, format, {
+        scaleFactor,
+        resize: this.resize,
+        metadata: this.metadata,
+        colorSpace: this.colorSpace,
+        jobId: this.jobId,
+        signal: this.signal,
+      });
+      const testResult: QualityTestResult = {
+        quality,
+        size: result.length,
+        buffer: result
+      };
+
+      // Discard candidates below the perceptual floor
+      if (this.minSSIM !== undefined) {
+        testResult.ssim = await this.scorer!.score(result);
+        if (testResult.ssim < this.minSSIM) {
+          this.log.debug(`Quality ${quality} rejected: SSIM ${testResult.ssim.toFixed(4)} < ${this.minSSIM}`);
+          this.floorRejections++;
+          this.recordEncode(testResult, false);
+          return { status: 'rejected' };
+        }
       }
-    });
 
-    const results = await Promise.all(promises);
-    return results.filter(result => result !== null) as QualityTestResult[];
+      this.recordEncode(testResult);
+      this.trackPaddable(testResult, format, scaleFactor);
+      return { status: 'ok', result: testResult };
+    } catch (error) {
+      this.throwIfStopped();
+      this.log.warn(`Error testing quality ${quality} at scale ${scaleFactor}`, error);
+      return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
   }
 
   /**
-   * Parallel binary search for optimal quality
+   * Interpolation search for the quality that lands on the target. Size grows
+   * roughly exponentially with quality, so each round interpolates log(size)
+   * across the bracket around the target, or extends the secant through the
+   * nearest points while one side is still open, and encodes only that
+   * quality. Bisection takes over when the points aren't monotonic or an
+   * interpolated step barely narrows the bracket.
    */
-  private async parallelBinarySearch(
+  private async interpolationSearch(
     buffer: Buffer, 
     format: OutputFormat, 
     initialResults: QualityTestResult[]
-  ): Promise<{ buffer: Buffer; quality: number; size: number; iterations: number }> {
-    
-    // Find the best starting point from parallel tests
-    const bestResult = initialResults.reduce((best, current) => {
-      const currentDiff = Math.abs(current.size - this.targetSize);
-      const bestDiff = Math.abs(best.size - this.targetSize);
-      return currentDiff < bestDiff ? current : best;
-    });
+  ): Promise<QualityTestResult & { iterations: number }> {
+    const points = new Map(initialResults.map(result => [result.quality, result]));
+    let currentBest = initialResults.reduce((best, current) => this.closerToTarget(current, best) ? current : best);
 
-    logger.debug(`Best initial result: quality=${bestResult.quality}, size=${bestResult.size}`, null, this.requestId, 'COMPRESSOR');
+    this.log.debug(`Best initial result: quality=${currentBest.quality}, size=${currentBest.size}`);
 
     // If we're already within tolerance, return immediately
-    if (this.isWithinTolerance(bestResult.size)) {
-      return { ...bestResult, iterations: initialResults.length };
+    if (this.isWithinTolerance(currentBest.size)) {
+      return { ...currentBest, iterations: 0 };
     }
 
-    // Determine search direction and bounds
-    let low = bestResult.quality;
-    let high = bestResult.quality;
-    
-    if (bestResult.size > this.targetSize) {
-      // Need lower quality
-      low = Math.max(1, bestResult.quality - 20);
-      high = bestResult.quality;
-    } else {
-      // Need higher quality
-      low = bestResult.quality;
-      high = Math.min(100, bestResult.quality + 20);
+    // Open bracket: every quality strictly between low and high is untested
+    let low = 0;
+    let high = 101;
+    for (const result of initialResults) {
+      if (result.size > this.targetSize) {
+        high = Math.min(high, result.quality);
+      } else {
+        low = Math.max(low, result.quality);
+      }
     }
 
-    let iterations = initialResults.length;
-    let currentBest = bestResult;
+    let iterations = 0;
+    let bisect = false;
 
-    // Parallel binary search with reduced iterations
-    while (low <= high && iterations < this.heuristics.maxIterations && !this.checkTimeout()) {
-      const mid = Math.floor((low + high) / 2);
-      
-      // Test 3 qualities in parallel around the midpoint
-      const testQualities = [mid - 1, mid, mid + 1].map(q => Math.round(q)).filter(q => q >= 1 && q <= 100);
-      const results = await this.parallelQualityTest(buffer, format, testQualities);
-      
-      if (results.length === 0) break;
-      
-      // Find best result from this batch
-      const batchBest = results.reduce((best, current) => {
-        const currentDiff = Math.abs(current.size - this.targetSize);
-        const bestDiff = Math.abs(best.size - this.targetSize);
-        return currentDiff < bestDiff ? current : best;
-      });
+    while (high - low > 1 && initialResults.length + iterations < this.heuristics.maxIterations && !this.checkTimeout()) {
+      const predicted: number | null = bisect ? null : this.predictQuality(points, low, high);
+      const quality = Math.min(high - 1, Math.max(low + 1, predicted ?? Math.floor((low + high) / 2)));
+      const bracketWidth = high - low;
+      this.log.debug(`Testing quality ${quality} in (${low}, ${high}) by ${predicted !== null ? 'interpolation' : 'bisection'}`);
 
-      // Update current best
-      if (Math.abs(batchBest.size - this.targetSize) < Math.abs(currentBest.size - this.targetSize)) {
-        currentBest = batchBest;
-      }
+      const rejections = this.floorRejections;
+      const [result] = await this.parallelQualityTest(buffer, format, [quality]);
+      iterations++;
 
-      iterations += results.length;
+      if (!result) {
+        if (this.floorRejections === rejections) break; // Encoder error
+        low = quality; // Below the perceptual floor, only higher qualities can pass
+      } else {
+        points.set(quality, result);
+        if (this.closerToTarget(result, currentBest)) {
+          currentBest = result;
+        }
 
-      // Check if we found a good result
-      if (this.isWithinTolerance(batchBest.size)) {
-        logger.debug(`Found acceptable result: ${batchBest.size} bytes (within tolerance)`, null, this.requestId, 'COMPRESSOR');
-        return { ...batchBest, iterations };
-      }
+        if (this.isWithinTolerance(result.size)) {
+          this.log.debug(`Found acceptable result: ${result.size} bytes (within tolerance)`);
+          return { ...result, iterations };
+        }
 
-      // Adjust search bounds
-      if (batchBest.size > this.targetSize) {
-        high = Math.min(...results.map(r => r.quality)) - 1;
-      } else {
-        low = Math.max(...results.map(r => r.quality)) + 1;
+        if (result.size > this.targetSize) {
+          high = quality;
+        } else {
+          low = quality;
+        }
       }
+
+      // Interpolation can creep in from one side; bisect once when it does
+      bisect = predicted !== null && high - low > bracketWidth / 2;
     }
 
-    logger.debug(`Parallel binary search completed. Best result: ${currentBest.size} bytes at quality ${currentBest.quality}`, null, this.requestId, 'COMPRESSOR');
+    this.log.debug(`Interpolation search completed after ${iterations} encodes. Best result: ${currentBest.size} bytes at quality ${currentBest.quality}`);
     return { ...currentBest, iterations };
   }
 
   /**
-   * Progressive scaling for exact size matching
+   * Quality where the log-size line through the bracket ends (or the two
+   * tested points nearest the open end) meets the target, or null when there
+   * are too few points or they aren't increasing
+   */
+  private predictQuality(points: Map<number, QualityTestResult>, low: number, high: number): number | null {
+    const lowPoint = points.get(low);
+    const highPoint = points.get(high);
+
+    let a: QualityTestResult;
+    let b: QualityTestResult;
+    if (lowPoint && highPoint) {
+      [a, b] = [lowPoint, highPoint];
+    } else {
+      const side = Array.from(points.values())
+        .filter(point => highPoint ? point.quality >= high : point.quality <= low)
+        .sort((x, y) => Math.abs(x.quality - (highPoint ? high : low)) - Math.abs(y.quality - (highPoint ? high : low)));
+      if (side.length < 2) {
+        return null;
+      }
+      [a, b] = side[0].quality < side[1].quality ? [side[0], side[1]] : [side[1], side[0]];
+    }
+
+    // Monotonicity guard: a flat or falling segment says nothing about where the target is
+    if (b.size <= a.size) {
+      return null;
+    }
+
+    const slope = (Math.log(b.size) - Math.log(a.size)) / (b.quality - a.quality);
+    return Math.round(a.quality + (Math.log(this.targetSize) - Math.log(a.size)) / slope);
+  }
+
+  private closerToTarget(candidate: QualityTestResult, best: QualityTestResult): boolean {
+    return Math.abs(candidate.size - this.targetSize) < Math.abs(best.size - this.targetSize);
+  }
+
+  /**
+   * Progressive scaling as a 2-D search: binary search for the largest scale
+   * that fits the target at a fixed quality, then refine quality at that scale
    */
   private async progressiveScaling(
     buffer: Buffer, 
-    format: OutputFormat
+    format: OutputFormat,
+    baseQuality: number
   ): Promise<ScalingResult> {
-    
-    // More aggressive scaling for exact mode, fewer steps for speed
-    const scaleFactors = this.mode === 'exact' 
-      ? [0.9, 0.8, 0.7, 0.6, 0.5, 0.4, 0.3]
-      : [0.9, 0.8, 0.7, 0.6, 0.5];
-    
-    let totalIterations = 0;
-    let bestResult: ScalingResult | null = null;
-    
-    logger.debug('Starting progressive scaling', null, this.requestId, 'COMPRESSOR');
-    
-    // Test multiple scales in parallel
-    const scalePromises = scaleFactors.map(async (scaleFactor) => {
-      if (this.checkTimeout()) return null;
-      
-      try {
-        // Quick quality test at this scale
-        const testQualities = [70, 80, 90].map(q => Math.round(q));
-        const results = await this.parallelQualityTest(buffer, format, testQualities);
-        
-        if (results.length === 0) return null;
-        
-        const best = results.reduce((best, current) => {
-          const currentDiff = Math.abs(current.size - this.targetSize);
-          const bestDiff = Math.abs(best.size - this.targetSize);
-          return currentDiff < bestDiff ? current : best;
-        });
-
-        return {
-          ...best,
-          scaleFactor,
-          iterations: results.length
-        };
-      } catch (error) {
-        logger.warn(`Error in progressive scaling at scale ${scaleFactor}`, error, this.requestId, 'COMPRESSOR');
-        return null;
+    let low: number = SCALING_CONFIG.minScale[this.mode];
+    let high = 1;
+    let iterations = 0;
+    let fitting: ScalingResult | null = null;
+    let closest: ScalingResult | null = null;
+    let lastError: string | undefined;
+
+    this.log.debug(`Starting progressive scaling at quality ${baseQuality}, scale range ${low}-${high}`);
+
+    // Size grows with scale, so test evenly spaced scales in parallel and
+    // keep the interval between the largest fitting and smallest oversized one
+    while (high - low > SCALING_CONFIG.scalePrecision && iterations < SCALING_CONFIG.maxIterations && !this.checkTimeout()) {
+      const step = (high - low) / (SCALING_CONFIG.parallelScales + 1);
+      const scales = Array.from(
+        { length: SCALING_CONFIG.parallelScales },
+        (_, i) => Math.round((low + step * (i + 1)) * 1000) / 1000
+      );
+
+      const outcomes = await Promise.all(
+        scales.map(scale => this.testQuality(buffer, format, baseQuality, scale))
+      );
+      iterations += scales.length;
+
+      let newLow = low;
+      let newHigh = high;
+      for (let i = 0; i < scales.length; i++) {
+        const outcome = outcomes[i];
+        if (outcome.status === 'rejected') {
+          // Rejected by the perceptual floor: this scale is too small
+          newLow = scales[i];
+          continue;
+        }
+        if (outcome.status === 'failed') {
+          // A failed encode says nothing about the size at this scale
+          lastError = outcome.error;
+          continue;
+        }
+
+        const candidate: ScalingResult = { ...outcome.result, scaleFactor: scales[i], iterations: 0 };
+        if (!closest || Math.abs(candidate.size - this.targetSize) < Math.abs(closest.size - this.targetSize)) {
+          closest = candidate;
+        }
+
+        if (candidate.size > this.targetSize + this.tolerance) {
+          newHigh = scales[i];
+          break;
+        }
+
+        newLow = scales[i];
+        fitting = candidate;
       }
-    });
 
-    const scaleResults = await Promise.all(scalePromises);
-    const validResults = scaleResults.filter(result => result !== null) as ScalingResult[];
-    
-    if (validResults.length === 0) {
-      throw new Error('Progressive scaling failed to produce any result');
+      if (outcomes.every(outcome => outcome.status === 'failed')) {
+        break; // Encoder errors at every scale, more scales won't help
+      }
+
+      low = newLow;
+      high = newHigh;
     }
 
-    // Find best result
-    const bestScaleResult = validResults.reduce((best, current) => {
-      const currentDiff = Math.abs(current.size - this.targetSize);
-      const bestDiff = Math.abs(best.size - this.targetSize);
-      return currentDiff < bestDiff ? current : best;
-    });
+    // Without a fitting scale, lower the quality at the closest one instead
+    const chosen = fitting || closest;
+    if (!chosen) {
+      throw new Error(lastError
+        ? `Progressive scaling failed to produce any result: ${lastError}`
+        : 'Progressive scaling failed to produce any result');
+    }
+
+    this.log.debug(`Scale search settled on ${chosen.scaleFactor}: ${chosen.size} bytes`);
+
+    // Refine quality at the chosen scale
+    let best = chosen;
+    let qualityLow = chosen.size < this.targetSize ? baseQuality + 1 : 1;
+    let qualityHigh = chosen.size < this.targetSize ? 100 : baseQuality - 1;
+
+    while (
+      !this.isWithinTolerance(best.size) &&
+      qualityLow <= qualityHigh &&
+      iterations < SCALING_CONFIG.maxIterations &&
+      !this.checkTimeout()
+    ) {
+      const mid = Math.floor((qualityLow + qualityHigh) / 2);
+      const testQualities = [mid - 1, mid, mid + 1].filter(q => q >= qualityLow && q <= qualityHigh);
+      const outcomes = await Promise.all(
+        testQualities.map(quality => this.testQuality(buffer, format, quality, best.scaleFactor))
+      );
+      iterations += testQualities.length;
+
+      const results = outcomes.flatMap(outcome => outcome.status === 'ok' ? [outcome.result] : []);
+      if (results.length === 0) {
+        if (outcomes.some(outcome => outcome.status === 'failed')) {
+          break; // Encoder error, keep the best result so far
+        }
+        // All broke the perceptual floor, only higher qualities can pass
+        qualityLow = Math.max(...testQualities) + 1;
+        continue;
+      }
+
+      for (const result of results) {
+        if (Math.abs(result.size - this.targetSize) < Math.abs(best.size - this.targetSize)) {
+          best = { ...result, scaleFactor: best.scaleFactor, iterations: 0 };
+        }
+      }
+
+      if (results.every(result => result.size > this.targetSize)) {
+        qualityHigh = Math.min(...results.map(r => r.quality)) - 1;
+      } else if (results.every(result => result.size < this.targetSize)) {
+        qualityLow = Math.max(...results.map(r => r.quality)) + 1;
+      } else {
+        break; // The target falls between adjacent qualities
+      }
+    }
+
+    this.log.debug(`Progressive scaling completed: ${best.size} bytes at scale ${best.scaleFactor}, quality ${best.quality}`);
+    return { ...best, iterations };
+  }
+
+  /**
+   * In exact mode, remember the largest encode that padding can lift to the
+   * exact target, in case the search itself never lands on it, and the
+   * lowest quality that overshoots at each scale
+   */
+  private trackPaddable(result: QualityTestResult, format: OutputFormat, scaleFactor: number): void {
+    if (this.mode !== 'exact') return;
+
+    if (result.size > this.targetSize) {
+      this.oversized.set(scaleFactor, Math.min(this.oversized.get(scaleFactor) ?? 101, result.quality));
+      return;
+    }
+    if (!ExactSizePadder.canPad(format, this.targetSize - result.size)) return;
+
+    if (!this.paddable || result.size > this.paddable.size) {
+      this.paddable = { ...result, scaleFactor, iterations: 0 };
+    }
+  }
+
+  /**
+   * Bisect upward from the paddable encode to the highest quality that still
+   * fits under the target at its scale, so padding only makes up the step
+   * between adjacent qualities. Returns early on an exact hit.
+   */
+  private async refinePaddable(input: Buffer, format: OutputFormat): Promise<{ iterations: number; exact: ScalingResult | null }> {
+    let iterations = 0;
+    if (!this.paddable) return { iterations, exact: null };
+
+    const { scaleFactor } = this.paddable;
+    let low = this.paddable.quality;
+    let high = this.oversized.get(scaleFactor) ?? 101;
+
+    while (high - low > 1 && iterations < PADDING_CONFIG.refineIterations && !this.checkTimeout()) {
+      const quality = Math.floor((low + high) / 2);
+      const [result] = await this.parallelQualityTest(input, format, [quality], scaleFactor);
+      iterations++;
+
+      if (!result) break;
+      if (this.isExactMatch(result.size)) {
+        return { iterations, exact: { ...result, scaleFactor, iterations: 0 } };
+      }
+      if (result.size > this.targetSize) {
+        high = quality;
+      } else {
+        low = quality;
+      }
+    }
+
+    this.log.debug(`Padding refinement: ${iterations} encodes, padding from quality ${this.paddable.quality}`);
+    return { iterations, exact: null };
+  }
+
+  /**
+   * Pad the best under-target encode to the exact target, checking that the
+   * padded file still decodes. Padding that would make up too much of the
+   * file is refused unless the encode is already at full quality.
+   */
+  private async padToTarget(format: OutputFormat): Promise<(ScalingResult & { exactStrategy: ExactStrategy }) | null> {
+    if (!this.paddable) return null;
 
-    totalIterations = validResults.reduce((sum, result) => sum + result.iterations, 0);
+    const share = (this.targetSize - this.paddable.size) / this.targetSize;
+    if (share > PADDING_CONFIG.maxShare && this.paddable.quality < 100) {
+      this.log.warn(`Padding would be ${Math.round(share * 100)}% of the file at quality ${this.paddable.quality}, keeping the unpadded result`);
+      return null;
+    }
 
-    if (this.isWithinTolerance(bestScaleResult.size)) {
-      logger.debug(`Progressive scaling succeeded at scale ${bestScaleResult.scaleFactor}: ${bestScaleResult.size} bytes`, null, this.requestId, 'COMPRESSOR');
-      return { ...bestScaleResult, iterations: totalIterations };
+    try {
+      const { buffer, strategy } = ExactSizePadder.pad(this.paddable.buffer, format, this.targetSize);
+      await this.encoder.verifyDecodes(buffer);
+      this.log.debug(`Padded ${this.paddable.size} bytes to ${buffer.length} via ${strategy}`);
+      return { ...this.paddable, buffer, size: buffer.length, exactStrategy: strategy };
+    } catch (error) {
+      this.log.warn(`Padding ${format} output failed, keeping the unpadded result`, error);
+      return null;
     }
+  }
 
-    logger.debug(`Progressive scaling completed with best result: ${bestScaleResult.size} bytes at scale ${bestScaleResult.scaleFactor}`, null, this.requestId, 'COMPRESSOR');
-    return { ...bestScaleResult, iterations: totalIterations };
+  /**
+   * Switch to a new phase and notify the progress listener
+   */
+  private enterPhase(phase: CompressionPhase): void {
+    this.phase = phase;
+    this.emitProgress();
+  }
+
+  /**
+   * Fold a finished encode into the running totals and notify the progress listener
+   */
+  private recordEncode(result: QualityTestResult, accepted: boolean = true): void {
+    this.encodeCount++;
+    if (accepted && (!this.bestSoFar || Math.abs(result.size - this.targetSize) < Math.abs(this.bestSoFar.size - this.targetSize))) {
+      this.bestSoFar = result;
+    }
+    this.emitProgress(result);
+  }
+
+  private emitProgress(current?: QualityTestResult): void {
+    if (!this.onProgress) return;
+
+    try {
+      this.onProgress({
+        phase: this.phase,
+        iterations: this.encodeCount,
+        maxIterations: this.heuristics.maxIterations,
+        quality: current?.quality,
+        size: current?.size,
+        distanceToTarget: current ? current.size - this.targetSize : undefined,
+        bestSize: this.bestSoFar?.size,
+        bestQuality: this.bestSoFar?.quality,
+      });
+    } catch (error) {
+      this.log.warn('Progress listener failed', error);
+    }
   }
 
   /**
@@ -296,27 +603,82 @@ export class ParallelCompressor {
   /**
    * Create compression result object
    */
-  private createResult(
-    result: { buffer: Buffer; quality: number; size: number },
-    inputDims: { width: number; height: number },
+  private async createResult(
+    result: { buffer: Buffer; quality: number; size: number; ssim?: number },
+    format: OutputFormat,
+    input: Buffer,
     iterations: number,
     parallelTests: number,
     scaleFactor?: number
-  ): CompressionResult {
+  ): Promise<CompressionResult> {
+    // Exact mode must land on the byte: fall back to padding an under-target encode
+    let exactStrategy: ExactStrategy | undefined = this.isExactMatch(result.size) ? 'encoder' : undefined;
+    let paddingBytes: number | undefined;
+    if (this.mode === 'exact' && !exactStrategy) {
+      const refined = await this.refinePaddable(input, format);
+      iterations += refined.iterations;
+      const padded = refined.exact ? null : await this.padToTarget(format);
+      if (refined.exact) {
+        result = refined.exact;
+        scaleFactor = refined.exact.scaleFactor < 1 ? refined.exact.scaleFactor : undefined;
+        exactStrategy = 'encoder';
+      } else if (padded) {
+        paddingBytes = this.targetSize - this.paddable!.size;
+        result = padded;
+        scaleFactor = padded.scaleFactor < 1 ? padded.scaleFactor : undefined;
+        exactStrategy = padded.exactStrategy;
+      }
+    }
+
+    // Report the geometry actually written, falling back to the expected
+    // one for formats sharp cannot read back
+    const dimensions = await this.encoder.readDimensions(result.buffer).catch(async () => {
+      const expected = await this.encoder.computeOutputSize(input, scaleFactor, this.resize);
+      if (expected) return expected;
+      const { width, height } = await this.encoder.extractMetadata(input);
+      return { width, height };
+    });
+
     return {
       buffer: result.buffer,
       quality: result.quality,
       size: result.size,
-      dimensions: inputDims,
+      ssim: result.ssim ?? await this.scoreResult(result.buffer),
+      // The floor cost us the target: a rejected candidate may have been closer
+      ssimFloorLimited: this.floorRejections > 0 && !this.isWithinTolerance(result.size),
+      dimensions,
       exactMatch: this.isExactMatch(result.size),
+      exactStrategy,
+      paddingBytes,
+      metadataBytes: this.metadataBytes,
+      sourceColorSpace: this.inputMetadata!.colorSpace,
+      sourceBitDepth: this.inputMetadata!.bitDepth,
+      outputColorSpace: ImageEncoder.resolveOutputColorSpace(this.inputMetadata!.colorSpace, format, this.colorSpace),
       iterations,
       mode: this.mode,
+      targetBytes: this.targetSize,
+      tolerance: this.tolerance,
       processingTime: Date.now() - this.startTime,
       scaleFactor,
       parallelTests,
     };
   }
 
+  /**
+   * Score the returned buffer if a floor was set and it wasn't scored as a
+   * candidate. A failed score leaves it unreported rather than failing the
+   * compression.
+   */
+  private async scoreResult(buffer: Buffer): Promise<number | undefined> {
+    if (!this.scorer) return undefined;
+    try {
+      return await this.scorer.score(buffer);
+    } catch (error) {
+      this.log.warn('Could not score the final result', error);
+      return undefined;
+    }
+  }
+
   /**
    * Check if size is within tolerance
    */
@@ -339,12 +701,17 @@ export class ParallelCompressor {
   }
 
   /**
-   * Track memory usage
+   * Stop the whole compression once the caller has aborted it or the encode
+   * pool has cancelled this job, e.g. for going over its memory ceiling,
+   * instead of treating it as one failed candidate
    */
-  private trackMemory(buffer: Buffer): void {
-    this.memoryUsage += buffer.length;
-    if (this.memoryUsage > COMPRESSION_CONFIG.memoryLimitPerJob) {
-      throw new Error('Memory limit exceeded');
+  private throwIfStopped(): void {
+    if (this.signal?.aborted) {
+      throw new Error('Compression cancelled');
+    }
+    const error = encodePool.jobError(this.jobId);
+    if (error) {
+      throw error;
     }
   }
 }
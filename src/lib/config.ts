@@ -2,17 +2,20 @@
  * Configuration constants for the PixelPress compression system
  */
 
-import { CompressionConfig, AdaptiveConfig } from './types';
+import { CompressionConfig, AdaptiveConfig, OutputFormat, ResizePreset, ResizeFit, ResizeGravity, MetadataPolicy, ColorSpace, ColorSpaceTarget } from './types';
 
 export const COMPRESSION_CONFIG: CompressionConfig = {
   targetBytes: 1_000, // Minimum possible size (1KB)
+  minTargetBytes: 100,
+  maxTargetBytes: 25 * 1024 * 1024, // Never larger than the max input
   toleranceBalanced: 5_000,
   toleranceExact: 0,
+  maxTolerance: 1024 * 1024, // 1MB
   maxFileSize: 25 * 1024 * 1024, // 25MB
   maxWallTimeBalanced: 20_000, // 20 seconds (Vercel optimized)
   maxWallTimeExact: 25_000, // 25 seconds (Vercel optimized)
   maxConcurrentJobs: 20,
-  memoryLimitPerJob: 100 * 1024 * 1024, // 100MB
+  memoryLimitPerJob: 1200 * 1024 * 1024, // 1.2GB, enough to encode a maxInputPixels (50MP) image as AVIF
 };
 
 export const ADAPTIVE_CONFIG: AdaptiveConfig = {
@@ -30,11 +33,170 @@ export const ADAPTIVE_CONFIG: AdaptiveConfig = {
   parallelTests: 4,
 };
 
-export const SUPPORTED_OUTPUT_FORMATS = ['webp', 'avif'] as const;
-export const ALLOWED_INPUT_TYPES = ['image/jpeg', 'image/jpg', 'image/png'] as const;
+// Named geometries accepted through the `preset` field. Explicit width,
+// height, fit and gravity fields override the preset's values.
+export const RESIZE_PRESETS: Record<string, ResizePreset> = {
+  thumbnail: { width: 150, height: 150, fit: 'cover', gravity: 'attention' },
+  'og-image': { width: 1200, height: 630, fit: 'cover', gravity: 'attention' },
+  'retina-2x': { pixelRatio: 2 }, // Doubles the requested width/height
+};
+
+export const RESIZE_CONFIG = {
+  maxDimension: 8192, // Largest requested width or height, after the pixel ratio
+  defaultFit: 'inside' as ResizeFit, // Width/height act as maximums unless a fit is given
+  defaultGravity: 'center' as ResizeGravity,
+  fits: ['cover', 'contain', 'inside'] as readonly ResizeFit[],
+  gravities: [
+    'center', 'north', 'northeast', 'east', 'southeast',
+    'south', 'southwest', 'west', 'northwest', 'entropy', 'attention',
+  ] as readonly ResizeGravity[],
+} as const;
+
+export const METADATA_CONFIG = {
+  defaultPolicy: 'strip-all' as MetadataPolicy,
+  policies: ['strip-all', 'keep-icc', 'keep-copyright', 'keep-all', 'allow-list'] as readonly MetadataPolicy[],
+  copyrightTags: ['Artist', 'Copyright'], // EXIF fields kept by keep-copyright, along with the ICC profile
+  allowListFields: ['icc', 'xmp'], // Accepted in an allow-list besides EXIF text tag names
+} as const;
+
+export const COLOR_CONFIG = {
+  defaultTarget: 'srgb' as ColorSpaceTarget,
+  targets: ['srgb', 'preserve'] as readonly ColorSpaceTarget[],
+  // RGB spaces wider than (or different from) sRGB that preserve keeps
+  wideGamut: ['display-p3', 'adobe-rgb', 'prophoto', 'rec2020', 'other-rgb'] as readonly ColorSpace[],
+  greyscaleFormats: ['jpeg', 'jxl'] as readonly OutputFormat[], // WebP, AVIF and palette PNG are always written as RGB
+} as const;
+
+export const SUPPORTED_OUTPUT_FORMATS = ['webp', 'avif', 'jpeg', 'png', 'jxl'] as const;
+export const SCALING_CONFIG = {
+  minScale: { exact: 0.1, balanced: 0.3 },
+  scalePrecision: 0.02, // Stop the scale search once the interval is this narrow
+  parallelScales: 3, // Scales tested per search round
+  maxIterations: 15, // Encodes across the scale search and quality refinement
+} as const;
+
+export const PADDING_CONFIG = {
+  refineIterations: 7, // Encodes spent finding the highest quality under an exact target before padding
+  maxShare: 0.1, // Padding may make up at most this share of the file, unless quality is already at 100
+} as const;
+
+export const ALLOWED_INPUT_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/webp',
+  'image/avif',
+  'image/gif',
+  'image/tiff',
+  'image/heic',
+  'image/heif',
+  'image/svg+xml',
+] as const;
+
+export const INPUT_CONFIG = {
+  maxInputPixels: 50_000_000, // 50MP, rejects decompression bombs regardless of byte size
+  svgDensity: 144, // DPI used to rasterize SVG input (2x the 72 DPI default)
+} as const;
+
+export const BATCH_CONFIG = {
+  maxFiles: 200,
+  maxTotalSize: 500 * 1024 * 1024, // 500MB across all files
+  concurrency: 4, // Files compressed at once, each holding a job slot
+} as const;
+
+export const SRCSET_CONFIG = {
+  maxWidths: 12,
+  formats: ['avif', 'webp'] as readonly OutputFormat[], // <source> order, most efficient first
+  fallbackFormat: 'jpeg' as OutputFormat, // <img> fallback for browsers without the formats above
+  alphaFallbackFormat: 'png' as OutputFormat, // Fallback instead for sources with transparency
+  defaultBytesPerPixel: 0.15, // Budget per variant when none is given
+  defaultSizes: '100vw',
+  concurrency: 4, // Variants compressed at once, each holding a job slot
+} as const;
+
+export const JOB_CONFIG = {
+  store: process.env.JOB_STORE === 'file' ? 'file' : 'memory',
+  directory: process.env.JOB_STORE_DIR, // Defaults to <tmpdir>/pixelpress-jobs
+  concurrency: 4,
+  maxQueuedJobs: 100,
+  maxWallTime: 120_000, // 2 minutes, jobs are not bound by the request timeout
+  ttl: 60 * 60 * 1000, // Finished jobs are kept for 1 hour
+  cleanupInterval: 60 * 1000, // Sweep expired jobs at most once a minute
+  eventHeartbeatInterval: 15 * 1000, // Keeps idle progress streams open through proxies
+} as const;
+
+export const ENCODE_POOL_CONFIG = {
+  workers: process.env.ENCODE_WORKERS ? Number(process.env.ENCODE_WORKERS) : undefined, // Defaults to the CPU count, at most 4
+  memorySampleInterval: 20, // ms between RSS samples while an encode runs
+  maxHeapMb: 256, // V8 heap per worker; pixel data lives outside it in libvips
+} as const;
+
+export const FEATURE_CONFIG = {
+  sampleSize: 256, // Longest edge of the decode the statistics are computed on
+  edgeThreshold: 64, // Sobel magnitude counted as an edge
+  // Values at which each feature counts as fully complex
+  saturation: { edgeDensity: 0.3, colorBits: 15, noise: 8 },
+} as const;
+
+export const QUALITY_MODEL_CONFIG = {
+  directory: process.env.QUALITY_MODEL_DIR, // Defaults to <tmpdir>/pixelpress-quality
+  minSamples: 30, // Per format, below this the formula estimate is used
+  refitInterval: 25, // Refit after this many new samples
+  maxSamples: 5_000, // Most recent samples used for fitting
+  ridge: 0.5, // L2 penalty on the non-intercept weights
+  holdoutFraction: 0.2, // Newest share of samples held out by the eval command
+  reloadInterval: 5_000, // Check the model file for changes at most this often
+} as const;
+
+export const SSIM_CONFIG = {
+  analysisSize: 256, // Longest side both images are decoded to before scoring
+  windowSize: 8,
+  windowStride: 4,
+} as const;
+
+export const METRICS_CONFIG = {
+  durationBuckets: [0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120], // Seconds
+  iterationBuckets: [2, 4, 6, 8, 12, 16, 24, 32, 48],
+  outputSizeBuckets: [4, 8, 16, 32, 64, 128, 256, 512, 1024, 4096].map(kb => kb * 1024), // Bytes
+  cpuSampleInterval: 1_000, // Minimum ms between CPU usage samples
+} as const;
+
+export const HEALTH_CONFIG = {
+  selfTestTimeout: 5_000, // A codec whose test encode takes longer counts as broken
+  selfTestTtl: 10_000, // Reuse a self-test result for this long between readiness probes
+} as const;
+
+export const AUTH_CONFIG = {
+  required: process.env.API_KEYS_REQUIRED === 'true', // Otherwise requests without a key are let through under the anonymous limits
+  keysFile: process.env.API_KEYS_FILE, // Defaults to <cwd>/data/api-keys.json
+  usageFile: process.env.API_KEYS_USAGE_FILE, // Defaults to the keys file with a .usage.json suffix
+  reloadInterval: 5_000, // Check the keys file for changes at most this often
+  usageFlushDelay: 1_000, // Usage is written back this long after the first change
+  defaultRateLimit: { capacity: 10, refillPerSecond: 0.5 }, // Bursts of 10, then 30 requests a minute
+  anonymous: {
+    // Applied to each client IP on its own; requests without a key are unthrottled while these are unset
+    rateLimit: process.env.ANONYMOUS_RATE_LIMIT, // Bucket capacity and refill per second, e.g. 10/0.5
+    dailyRequests: process.env.ANONYMOUS_DAILY_REQUESTS ? Number(process.env.ANONYMOUS_DAILY_REQUESTS) : undefined,
+    dailyBytes: process.env.ANONYMOUS_DAILY_BYTES ? Number(process.env.ANONYMOUS_DAILY_BYTES) : undefined,
+  },
+} as const;
+
+export const LOG_CONFIG = {
+  level: process.env.LOG_LEVEL, // debug, info, warn or error; defaults to debug in development, info otherwise
+  file: process.env.LOG_FILE, // Also append entries to this file when set
+  maxFileBytes: 10 * 1024 * 1024, // Rotate the log file past this size
+  maxFiles: 5, // Rotated files kept
+} as const;
 
 export const CACHE_CONFIG = {
+  backend: (process.env.CACHE_BACKEND === 'file' || process.env.CACHE_BACKEND === 'redis' ? process.env.CACHE_BACKEND : 'memory') as 'memory' | 'file' | 'redis',
   ttl: 24 * 60 * 60 * 1000, // 24 hours
   cleanupInterval: 100, // Cleanup every 100 requests
+  maxMemoryBytes: 256 * 1024 * 1024, // Least recently used entries are evicted past this
+  maxDiskBytes: 2 * 1024 * 1024 * 1024,
+  directory: process.env.CACHE_DIR, // Defaults to <tmpdir>/pixelpress-cache
+  redisUrl: process.env.CACHE_REDIS_URL || 'redis://127.0.0.1:6379',
+  redisKeyPrefix: 'pixelpress:cache:',
+  redisTimeout: 2_000, // A cache that doesn't answer in time counts as a miss
 } as const;
 
@@ -0,0 +1,430 @@
+/**
+ * Worker-thread pool that runs every sharp encode, capping concurrent encodes
+ * across all requests and enforcing the per-job memory ceiling
+ */
+
+import { Worker } from 'worker_threads';
+import os from 'os';
+import sharp from 'sharp';
+import { COMPRESSION_CONFIG, ENCODE_POOL_CONFIG } from './config';
+import { OutputFormat } from './types';
+import { logger } from './logger';
+
+// sharp methods an encode may use; workers refuse anything else
+const RECORDED_METHODS = [
+  'rotate', 'resize', 'flatten', 'toColourspace',
+  'keepMetadata', 'keepIccProfile', 'keepXmp', 'withExif', 'withIccProfile',
+  'webp', 'avif', 'jpeg', 'png', 'jxl',
+] as const;
+
+type RecordedMethod = typeof RECORDED_METHODS[number];
+
+// One sharp method call, recorded on the request thread and replayed by a worker
+export interface SharpOperation {
+  method: RecordedMethod;
+  args: unknown[];
+}
+
+/**
+ * A sharp pipeline as a list of calls, so it can be built where the request
+ * lives and executed in a worker
+ */
+export type SharpRecipe = {
+  [M in RecordedMethod]: (...args: Parameters<sharp.Sharp[M]>) => SharpRecipe;
+} & { readonly operations: SharpOperation[] };
+
+export function createRecipe(): SharpRecipe {
+  const operations: SharpOperation[] = [];
+  const methods = {} as Record<RecordedMethod, (...args: unknown[]) => SharpRecipe>;
+  const recipe: SharpRecipe = Object.assign(methods, { operations });
+  for (const method of RECORDED_METHODS) {
+    methods[method] = (...args: unknown[]) => {
+      operations.push({ method, args });
+      return recipe;
+    };
+  }
+  return recipe;
+}
+
+export interface EncodeTask {
+  input: Buffer;
+  inputOptions: sharp.SharpOptions;
+  operations: SharpOperation[];
+}
+
+export interface EncodeTaskOptions {
+  jobId?: string; // Tasks of one job share its memory ceiling and cancellation
+  signal?: AbortSignal;
+}
+
+// Peak RSS growth per output pixel, measured encoding a 30MP photo: the
+// decoded frame plus the encoder's own working copies. Used to schedule a
+// job's encodes before anything is measured.
+const BYTES_PER_OUTPUT_PIXEL: Record<OutputFormat, number> = {
+  jpeg: 8,
+  png: 8,
+  webp: 18,
+  avif: 24,
+  jxl: 24,
+};
+
+// Runs in each worker. RSS growth is sampled while the encode runs and
+// reported as it climbs, so the pool can stop a job before it finishes.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const sharp = require('sharp');
+sharp.concurrency(1);
+const allowed = new Set(workerData.methods);
+
+parentPort.on('message', async ({ id, input, inputOptions, operations }) => {
+  const start = process.memoryUsage.rss();
+  let peak = 0;
+  const sample = () => {
+    const growth = process.memoryUsage.rss() - start;
+    if (growth > peak) {
+      peak = growth;
+      parentPort.postMessage({ id, type: 'memory', bytes: peak });
+    }
+  };
+  const timer = setInterval(sample, workerData.sampleInterval);
+
+  try {
+    let pipeline = sharp(Buffer.from(input), inputOptions);
+    for (const { method, args } of operations) {
+      if (!allowed.has(method)) throw new Error('Unsupported pipeline operation: ' + method);
+      pipeline = pipeline[method](...args);
+    }
+    const output = await pipeline.toBuffer();
+    sample();
+    parentPort.postMessage({ id, type: 'done', output });
+  } catch (error) {
+    parentPort.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    clearInterval(timer);
+  }
+});
+`;
+
+type WorkerMessage =
+  | { id: number; type: 'memory'; bytes: number }
+  | { id: number; type: 'done'; output: Uint8Array }
+  | { id: number; type: 'error'; message: string };
+
+interface PendingTask {
+  id: number;
+  task: EncodeTask;
+  jobId?: string;
+  memory: number; // Estimated bytes the encode holds
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  resolve: (output: Buffer) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  task: PendingTask | null;
+  measured: number; // Process RSS growth since the running task started
+}
+
+export class EncodePool {
+  private size: number;
+  private memoryLimitPerJob: number;
+  private slots: WorkerSlot[] = [];
+  private queue: PendingTask[] = [];
+  private nextId = 0;
+  private shared = new WeakMap<Buffer, SharedArrayBuffer>();
+  private dimensions = new WeakMap<Buffer, Promise<{ width: number; height: number }>>();
+  private failedJobs = new Map<string, Error>();
+  private completed = 0;
+  private cancelled = 0;
+  private memoryLimitHits = 0;
+  private peakJobMemory = 0;
+
+  constructor(size: number, memoryLimitPerJob: number) {
+    this.size = Math.max(1, size);
+    this.memoryLimitPerJob = memoryLimitPerJob;
+  }
+
+  /**
+   * Queue an encode and resolve with the encoded image. An encode whose
+   * memory estimate alone passes the per-job ceiling fails its whole job
+   * without running; the rest are stopped if their measured usage does.
+   */
+  async run(task: EncodeTask, options: EncodeTaskOptions = {}): Promise<Buffer> {
+    const { jobId, signal } = options;
+    const memory = await this.estimateMemory(task);
+
+    const failure = jobId ? this.failedJobs.get(jobId) : undefined;
+    if (failure) {
+      throw failure;
+    }
+    if (signal?.aborted) {
+      throw new Error('Encode cancelled');
+    }
+
+    if (memory > this.memoryLimitPerJob) {
+      this.memoryLimitHits++;
+      const toMB = (bytes: number) => Math.round(bytes / (1024 * 1024));
+      const error = new Error(`Memory limit exceeded: ~${toMB(memory)}MB of ${toMB(this.memoryLimitPerJob)}MB`);
+      logger.warn(`Encode needs ~${toMB(memory)}MB, over the ${toMB(this.memoryLimitPerJob)}MB limit`, null, jobId, 'ENCODE_POOL');
+      if (jobId) {
+        this.cancelJob(jobId, error);
+      }
+      throw error;
+    }
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const pending: PendingTask = { id: this.nextId++, task, jobId, memory, signal, resolve, reject };
+      if (signal) {
+        pending.onAbort = () => this.cancel(pending, new Error('Encode cancelled'));
+        signal.addEventListener('abort', pending.onAbort, { once: true });
+      }
+      this.queue.push(pending);
+      this.pump();
+    });
+  }
+
+  /**
+   * Fail every queued and running task of a job. libvips can't interrupt an
+   * encode it has started, so running tasks have their workers terminated,
+   * which drops the result and frees the slot for a fresh worker.
+   */
+  cancelJob(jobId: string, reason: Error): void {
+    this.failedJobs.set(jobId, reason);
+    for (const pending of this.queue.filter(pending => pending.jobId === jobId)) {
+      this.cancel(pending, reason);
+    }
+    for (const slot of this.slots.filter(slot => slot.task?.jobId === jobId)) {
+      this.cancel(slot.task!, reason);
+    }
+  }
+
+  /**
+   * The error a job was cancelled with, if any
+   */
+  jobError(jobId: string): Error | null {
+    return this.failedJobs.get(jobId) ?? null;
+  }
+
+  /**
+   * Forget a finished job's cancellation state
+   */
+  releaseJob(jobId: string): void {
+    this.failedJobs.delete(jobId);
+  }
+
+  getStats() {
+    return {
+      workers: this.slots.length,
+      maxWorkers: this.size,
+      busyWorkers: this.slots.filter(slot => slot.task).length,
+      queueLength: this.queue.length,
+      completed: this.completed,
+      cancelled: this.cancelled,
+      memoryLimitHits: this.memoryLimitHits,
+      peakJobMemory: this.peakJobMemory,
+    };
+  }
+
+  /**
+   * Hand queued tasks to idle workers, spawning workers up to the pool size.
+   * Tasks of a job that has no memory to spare stay queued while other
+   * jobs' tasks go ahead.
+   */
+  private pump(): void {
+    while (this.queue.length > 0) {
+      const next = this.queue.findIndex(pending => this.fitsMemory(pending));
+      if (next === -1) return;
+      const slot = this.slots.find(slot => !slot.task) ?? (this.slots.length < this.size ? this.spawn() : null);
+      if (!slot) return;
+
+      const [pending] = this.queue.splice(next, 1);
+      const { input, inputOptions, operations } = pending.task;
+      slot.task = pending;
+      slot.measured = 0;
+      slot.worker.ref();
+      slot.worker.postMessage({ id: pending.id, input: this.share(input), inputOptions, operations });
+    }
+  }
+
+  private spawn(): WorkerSlot {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { methods: RECORDED_METHODS, sampleInterval: ENCODE_POOL_CONFIG.memorySampleInterval },
+      resourceLimits: { maxOldGenerationSizeMb: ENCODE_POOL_CONFIG.maxHeapMb },
+    });
+    const slot: WorkerSlot = { worker, task: null, measured: 0 };
+
+    worker.on('message', (message: WorkerMessage) => this.handleMessage(slot, message));
+    worker.on('error', error => {
+      logger.error('Encode worker crashed', error, slot.task?.jobId, 'ENCODE_POOL');
+      this.replace(slot, error instanceof Error ? error : new Error(String(error)));
+    });
+    worker.on('exit', code => {
+      if (this.slots.includes(slot)) {
+        this.replace(slot, new Error(`Encode worker exited with code ${code}`));
+      }
+    });
+    worker.unref();
+
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private handleMessage(slot: WorkerSlot, message: WorkerMessage): void {
+    const pending = slot.task;
+    if (!pending || pending.id !== message.id) return;
+
+    if (message.type === 'memory') {
+      slot.measured = message.bytes;
+      if (pending.jobId) {
+        this.checkJobMemory(pending.jobId);
+      }
+      return;
+    }
+
+    slot.measured = 0;
+    slot.task = null;
+    slot.worker.unref();
+    this.detach(pending);
+
+    if (message.type === 'done') {
+      this.completed++;
+      pending.resolve(Buffer.from(message.output.buffer, message.output.byteOffset, message.output.byteLength));
+    } else {
+      pending.reject(new Error(message.message));
+    }
+    this.pump();
+  }
+
+  /**
+   * A job's encodes run side by side only while their estimates fit under
+   * its ceiling; the first one always may
+   */
+  private fitsMemory(pending: PendingTask): boolean {
+    if (!pending.jobId) return true;
+    const running = this.jobMemory(pending.jobId);
+    return running === 0 || running + pending.memory <= this.memoryLimitPerJob;
+  }
+
+  private jobMemory(jobId: string): number {
+    return this.slots
+      .filter(slot => slot.task?.jobId === jobId)
+      .reduce((sum, slot) => sum + slot.task!.memory, 0);
+  }
+
+  /**
+   * Measure a job against its ceiling and cancel it once it passes. RSS is
+   * process-wide, so each running encode's growth also holds whatever ran
+   * beside it; it is shared out by estimate, so concurrent encodes and other
+   * jobs don't count towards this one.
+   */
+  private checkJobMemory(jobId: string): void {
+    const running = this.slots.filter(slot => slot.task);
+    const estimated = running.reduce((sum, slot) => sum + slot.task!.memory, 0);
+    const memory = running
+      .filter(slot => slot.task!.jobId === jobId)
+      .reduce((sum, slot) => sum + slot.measured * (estimated > 0 ? slot.task!.memory / estimated : 1 / running.length), 0);
+    this.peakJobMemory = Math.max(this.peakJobMemory, memory);
+
+    if (memory > this.memoryLimitPerJob) {
+      this.memoryLimitHits++;
+      const toMB = (bytes: number) => Math.round(bytes / (1024 * 1024));
+      logger.warn(`Job used ~${toMB(memory)}MB, over the ${toMB(this.memoryLimitPerJob)}MB limit`, null, jobId, 'ENCODE_POOL');
+      this.cancelJob(jobId, new Error(`Memory limit exceeded: ~${toMB(memory)}MB of ${toMB(this.memoryLimitPerJob)}MB`));
+    }
+  }
+
+  /**
+   * Bytes an encode holds, from its output format and the size of the frame
+   * it writes: the last resize in the recipe, or else the upright input
+   */
+  private async estimateMemory(task: EncodeTask): Promise<number> {
+    const format = task.operations.map(operation => operation.method).filter(method => method in BYTES_PER_OUTPUT_PIXEL).pop();
+    const bytesPerPixel = BYTES_PER_OUTPUT_PIXEL[(format ?? 'avif') as OutputFormat];
+
+    const resize = task.operations.filter(operation => operation.method === 'resize').pop()?.args[0] as
+      | { width?: number; height?: number }
+      | undefined;
+    if (resize?.width && resize.height) {
+      return resize.width * resize.height * bytesPerPixel;
+    }
+
+    let dimensions = this.dimensions.get(task.input);
+    if (!dimensions) {
+      // An unreadable input is left for the worker to report
+      dimensions = sharp(task.input, task.inputOptions).metadata().then(
+        metadata => {
+          const { width = 0, height = 0 } = metadata.autoOrient || metadata;
+          return { width, height };
+        },
+        () => ({ width: 0, height: 0 })
+      );
+      this.dimensions.set(task.input, dimensions);
+    }
+    const { width, height } = await dimensions;
+    return width * height * bytesPerPixel;
+  }
+
+  /**
+   * Reject a task, dropping it from the queue or stopping its worker
+   */
+  private cancel(pending: PendingTask, reason: Error): void {
+    const queued = this.queue.indexOf(pending);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    } else {
+      const slot = this.slots.find(slot => slot.task === pending);
+      if (!slot) return; // Already settled
+      slot.task = null;
+      this.replace(slot, null);
+    }
+
+    this.cancelled++;
+    this.detach(pending);
+    pending.reject(reason);
+  }
+
+  /**
+   * Terminate a worker, failing its running task, and let pump() spawn a
+   * fresh one on demand
+   */
+  private replace(slot: WorkerSlot, error: Error | null): void {
+    this.slots = this.slots.filter(other => other !== slot);
+    const pending = slot.task;
+    slot.task = null;
+    slot.worker.terminate().catch(() => undefined);
+
+    if (pending && error) {
+      this.detach(pending);
+      pending.reject(error);
+    }
+    this.pump();
+  }
+
+  private detach(pending: PendingTask): void {
+    if (pending.signal && pending.onAbort) {
+      pending.signal.removeEventListener('abort', pending.onAbort);
+    }
+  }
+
+  /**
+   * Copy an input into shared memory once, so every candidate encode of the
+   * same image reaches the workers without another copy
+   */
+  private share(input: Buffer): SharedArrayBuffer {
+    let shared = this.shared.get(input);
+    if (!shared) {
+      shared = new SharedArrayBuffer(input.length);
+      new Uint8Array(shared).set(input);
+      this.shared.set(input, shared);
+    }
+    return shared;
+  }
+}
+
+export const encodePool = new EncodePool(
+  ENCODE_POOL_CONFIG.workers ?? Math.min(4, os.cpus().length),
+  COMPRESSION_CONFIG.memoryLimitPerJob
+);
@@ -3,80 +3,475 @@
  */
 
 import sharp from 'sharp';
-import { OutputFormat, ImageMetadata } from './types';
-import { logger } from './logger';
+import {
+  OutputFormat,
+  InputFormat,
+  ImageMetadata,
+  ResizeOptions,
+  EncodeOptions,
+  MetadataOptions,
+  ColorSpace,
+  ColorSpaceTarget
+} from './types';
+import { INPUT_CONFIG, METADATA_CONFIG, COLOR_CONFIG } from './config';
+import { logger, Logger } from './logger';
+import { readExifTextFields } from './exif';
+import { readIccDescription } from './icc';
+import { createRecipe, encodePool, SharpRecipe } from './encode-pool';
+
+// ISOBMFF brands identifying AVIF and HEIC inside the ftyp box
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+// ICC profile descriptions of the common RGB working spaces
+const ICC_DESCRIPTIONS: Array<[RegExp, ColorSpace]> = [
+  [/srgb|iec\s?61966/i, 'srgb'],
+  [/p3/i, 'display-p3'],
+  [/adobe\s?rgb|compatible with adobe/i, 'adobe-rgb'],
+  [/prophoto|romm/i, 'prophoto'],
+  [/2020/, 'rec2020'],
+];
+
+// Bits per channel of libvips band formats
+const BAND_FORMAT_BITS: Record<string, number> = {
+  uchar: 8, char: 8, ushort: 16, short: 16, uint: 32, int: 32, float: 32, double: 64,
+};
+
+// SVG is rasterized at the configured density and oversized pixel counts are
+// refused by libvips
+const INPUT_OPTIONS: sharp.SharpOptions = {
+  density: INPUT_CONFIG.svgDensity,
+  limitInputPixels: INPUT_CONFIG.maxInputPixels,
+  animated: false, // First frame of animated GIF/WebP
+};
 
 export class ImageEncoder {
+  private log: Logger;
+
+  constructor(log: Logger = logger) {
+    this.log = log.child({ context: 'ENCODER' });
+  }
+
   /**
-   * Encode image with specified quality and format
+   * Encode image with specified quality and format, at the requested
+   * geometry shrunk by scaleFactor and carrying the metadata the policy keeps.
+   * The encode itself runs on the shared worker pool.
    */
   async encode(
     buffer: Buffer, 
     quality: number, 
     format: OutputFormat, 
-    scaleFactor: number = 1
+    options: EncodeOptions = {}
   ): Promise<Buffer> {
     // Ensure quality is an integer
     const intQuality = Math.round(Math.max(1, Math.min(100, quality)));
     
-    let pipeline = sharp(buffer)
-      .withMetadata({}) // Remove all metadata for determinism
-      .rotate(); // Auto-rotate based on EXIF
-
-    // Apply scaling if needed
-    if (scaleFactor < 1) {
-      const metadata = await sharp(buffer).metadata();
-      if (metadata.width && metadata.height) {
-        pipeline = pipeline.resize({
-          width: Math.round(metadata.width * scaleFactor),
-          height: Math.round(metadata.height * scaleFactor),
-          fit: 'inside',
-          kernel: sharp.kernel.lanczos3, // Deterministic resizing
-        });
+    const source = await this.createPipeline(buffer).metadata();
+    let recipe = await this.applyGeometry(
+      createRecipe().rotate(), // Auto-rotate based on EXIF
+      buffer,
+      options.scaleFactor ?? 1,
+      options.resize
+    );
+    recipe = this.applyMetadata(recipe, source, options.metadata);
+    recipe = this.applyColor(recipe, source, format, options.colorSpace, options.metadata);
+
+    return this.run(this.encodeAs(recipe, format, intQuality), buffer, options);
+  }
+
+  /**
+   * Measure how many bytes the metadata policy (and any preserved colour
+   * profile) adds to an encode, using a tiny render since the metadata
+   * doesn't depend on the pixel count
+   */
+  async measureMetadataBytes(
+    buffer: Buffer,
+    format: OutputFormat,
+    metadata?: MetadataOptions,
+    colorSpace?: ColorSpaceTarget,
+    options: EncodeOptions = {}
+  ): Promise<number> {
+    if ((!metadata || metadata.policy === 'strip-all') && colorSpace !== 'preserve') {
+      return 0;
+    }
+
+    const source = await this.createPipeline(buffer).metadata();
+    const tiny = () => createRecipe().rotate().resize({ width: 8, height: 8, fit: 'fill' });
+    const [bare, withMetadata] = await Promise.all([
+      this.run(this.encodeAs(this.applyColor(tiny(), source, format), format, 50), buffer, options),
+      this.run(this.encodeAs(this.applyColor(this.applyMetadata(tiny(), source, metadata), source, format, colorSpace, metadata), format, 50), buffer, options),
+    ]);
+    return Math.max(0, withMetadata.length - bare.length);
+  }
+
+  /**
+   * Resolve the colour space an encode ends up in for a given source and format
+   */
+  static resolveOutputColorSpace(
+    source: ColorSpace,
+    format: OutputFormat,
+    target: ColorSpaceTarget = COLOR_CONFIG.defaultTarget
+  ): ColorSpace {
+    if (target === 'preserve' && COLOR_CONFIG.wideGamut.includes(source)) {
+      return source;
+    }
+    return source === 'grey' && COLOR_CONFIG.greyscaleFormats.includes(format) ? 'grey' : 'srgb';
+  }
+
+  /**
+   * Convert to the target colour space at 8 bits per channel. sharp imports
+   * CMYK and tagged RGB through the embedded profile (or a default CMYK one),
+   * so converting is a matter of choosing the output interpretation.
+   */
+  private applyColor(
+    pipeline: SharpRecipe,
+    source: sharp.Metadata,
+    format: OutputFormat,
+    target?: ColorSpaceTarget,
+    metadata?: MetadataOptions
+  ): SharpRecipe {
+    const output = ImageEncoder.resolveOutputColorSpace(this.describeColor(source).colorSpace, format, target);
+
+    if (output === 'grey') {
+      return pipeline.toColourspace('b-w');
+    }
+
+    if (output !== 'srgb') {
+      // Keep the wide-gamut values untouched, tagged with their own profile
+      return pipeline.keepIccProfile();
+    }
+
+    pipeline = pipeline.toColourspace('srgb');
+    // A source profile kept by the metadata policy has to describe the converted pixels
+    return source.icc && this.keepsIccProfile(metadata) ? pipeline.withIccProfile('srgb') : pipeline;
+  }
+
+  private keepsIccProfile(metadata?: MetadataOptions): boolean {
+    switch (metadata?.policy) {
+      case 'keep-icc':
+      case 'keep-copyright':
+      case 'keep-all':
+        return true;
+      case 'allow-list':
+        return metadata.allow?.includes('icc') ?? false;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Identify the colour space and bit depth of a decoded source
+   */
+  private describeColor(source: sharp.Metadata): { colorSpace: ColorSpace; bitDepth: number; iccProfile?: string } {
+    const bitDepth = BAND_FORMAT_BITS[source.depth ?? 'uchar'] ?? 8;
+    const iccProfile = source.icc ? readIccDescription(source.icc) ?? undefined : undefined;
+
+    if (source.space === 'cmyk') {
+      return { colorSpace: 'cmyk', bitDepth, iccProfile };
+    }
+    if (source.space === 'b-w' || source.space === 'grey16') {
+      return { colorSpace: 'grey', bitDepth, iccProfile };
+    }
+    if (!source.icc) {
+      return { colorSpace: 'srgb', bitDepth };
+    }
+
+    const match = ICC_DESCRIPTIONS.find(([pattern]) => iccProfile && pattern.test(iccProfile));
+    return { colorSpace: match ? match[1] : 'other-rgb', bitDepth, iccProfile };
+  }
+
+  /**
+   * Attach the input metadata the policy keeps. sharp strips everything by
+   * default, which is the strip-all policy.
+   */
+  private applyMetadata(pipeline: SharpRecipe, source: sharp.Metadata, metadata?: MetadataOptions): SharpRecipe {
+    const policy = metadata?.policy ?? METADATA_CONFIG.defaultPolicy;
+    switch (policy) {
+      case 'strip-all':
+        return pipeline;
+      case 'keep-all':
+        return pipeline.keepMetadata();
+      case 'keep-icc':
+        return pipeline.keepIccProfile();
+    }
+
+    const allowed: readonly string[] = policy === 'keep-copyright'
+      ? ['icc', ...METADATA_CONFIG.copyrightTags]
+      : metadata?.allow ?? [];
+
+    if (allowed.includes('icc')) {
+      pipeline = pipeline.keepIccProfile();
+    }
+    if (allowed.includes('xmp')) {
+      pipeline = pipeline.keepXmp();
+    }
+
+    // Rewrite EXIF from scratch with just the allowed text fields, which
+    // leaves GPS and the other sub-IFDs behind
+    if (source.exif) {
+      const fields = readExifTextFields(source.exif);
+      const kept = Object.fromEntries(Object.entries(fields).filter(([name]) => allowed.includes(name)));
+      if (Object.keys(kept).length > 0) {
+        pipeline = pipeline.withExif({ IFD0: kept });
       }
     }
 
-    // Apply format-specific encoding with optimized settings
+    return pipeline;
+  }
+
+  /**
+   * Apply format-specific encoding with optimized settings
+   */
+  private encodeAs(pipeline: SharpRecipe, format: OutputFormat, quality: number): SharpRecipe {
     switch (format) {
       case 'webp':
-        return this.encodeWebP(pipeline, intQuality);
+        return this.encodeWebP(pipeline, quality);
       
       case 'avif':
-        return this.encodeAVIF(pipeline, intQuality);
+        return this.encodeAVIF(pipeline, quality);
+      
+      case 'jpeg':
+        return this.encodeJPEG(pipeline, quality);
+      
+      case 'png':
+        return this.encodePNG(pipeline, quality);
+      
+      case 'jxl':
+        return this.encodeJXL(pipeline, quality);
       
       default:
         throw new Error(`Unsupported format: ${format}`);
     }
   }
 
+  /**
+   * Render the requested geometry losslessly, as the reference that scaled
+   * and compressed candidates are scored against
+   */
+  async renderGeometry(buffer: Buffer, resize: ResizeOptions, options: EncodeOptions = {}): Promise<Buffer> {
+    const recipe = await this.applyGeometry(createRecipe().rotate(), buffer, 1, resize);
+    return this.run(recipe.png({ compressionLevel: 1 }), buffer, options);
+  }
+
+  /**
+   * Compute the output dimensions for a requested geometry and scale factor.
+   * Returns null when the image is encoded at its own size.
+   */
+  async computeOutputSize(
+    buffer: Buffer,
+    scaleFactor: number = 1,
+    resize?: ResizeOptions
+  ): Promise<{ width: number; height: number } | null> {
+    if (scaleFactor >= 1 && !resize) {
+      return null;
+    }
+
+    const metadata = await this.createPipeline(buffer).metadata();
+    // Use the upright geometry, since rotate() runs before the resize
+    const { width, height } = metadata.autoOrient || metadata;
+    if (!width || !height) {
+      return null;
+    }
+
+    let outWidth = width;
+    let outHeight = height;
+    if (resize) {
+      const boxWidth = resize.width ?? Infinity;
+      const boxHeight = resize.height ?? Infinity;
+      if (resize.fit !== 'inside' && resize.width && resize.height) {
+        // cover and contain fill the box exactly
+        outWidth = resize.width;
+        outHeight = resize.height;
+      } else {
+        // inside treats the box as maximums; a lone dimension sets the size
+        const ratio = Math.min(boxWidth / width, boxHeight / height);
+        const limited = resize.fit === 'inside' ? Math.min(1, ratio) : ratio;
+        outWidth = width * limited;
+        outHeight = height * limited;
+      }
+    }
+
+    return {
+      width: Math.max(1, Math.round(outWidth * Math.min(1, scaleFactor))),
+      height: Math.max(1, Math.round(outHeight * Math.min(1, scaleFactor))),
+    };
+  }
+
+  /**
+   * Add the resize for the requested geometry and scale factor to a pipeline
+   */
+  private async applyGeometry(
+    pipeline: SharpRecipe,
+    buffer: Buffer,
+    scaleFactor: number,
+    resize?: ResizeOptions
+  ): Promise<SharpRecipe> {
+    const size = await this.computeOutputSize(buffer, scaleFactor, resize);
+    if (!size) {
+      return pipeline;
+    }
+
+    return pipeline.resize({
+      ...size,
+      fit: resize?.fit ?? 'inside',
+      position: resize?.gravity ?? 'center',
+      background: { r: 0, g: 0, b: 0, alpha: 0 }, // contain letterboxing, flattened for JPEG
+      kernel: sharp.kernel.lanczos3, // Deterministic resizing
+    });
+  }
+
   /**
    * WebP encoding with optimized settings
    */
-  private async encodeWebP(pipeline: sharp.Sharp, quality: number): Promise<Buffer> {
+  private encodeWebP(pipeline: SharpRecipe, quality: number): SharpRecipe {
     return pipeline.webp({
       quality,
       effort: 4, // Balanced speed/compression
       lossless: false,
       smartSubsample: true,
-    }).toBuffer();
+    });
   }
 
   /**
    * AVIF encoding with optimized settings
    */
-  private async encodeAVIF(pipeline: sharp.Sharp, quality: number): Promise<Buffer> {
+  private encodeAVIF(pipeline: SharpRecipe, quality: number): SharpRecipe {
     return pipeline.avif({
       quality,
       effort: 4, // Balanced speed/compression
       chromaSubsampling: '4:2:0', // Faster encoding
-    }).toBuffer();
+    });
+  }
+
+  /**
+   * JPEG encoding via mozjpeg, flattening any transparency onto white
+   */
+  private encodeJPEG(pipeline: SharpRecipe, quality: number): SharpRecipe {
+    return pipeline
+      .flatten({ background: '#ffffff' })
+      .jpeg({
+        quality,
+        mozjpeg: true, // Trellis quantisation and progressive scans
+        chromaSubsampling: '4:2:0',
+      });
+  }
+
+  /**
+   * Palette PNG encoding. Quality alone barely moves the size once the
+   * palette is full, so it also scales the colour count and dithering to keep
+   * size monotonic in quality for the binary search.
+   */
+  private encodePNG(pipeline: SharpRecipe, quality: number): SharpRecipe {
+    return pipeline.png({
+      palette: true,
+      quality,
+      colours: Math.max(2, Math.round(256 * quality / 100)),
+      dither: quality / 100,
+      effort: 7,
+      compressionLevel: 9,
+    });
+  }
+
+  /**
+   * JPEG XL encoding, only available when libvips was built with libjxl
+   */
+  private encodeJXL(pipeline: SharpRecipe, quality: number): SharpRecipe {
+    return pipeline.jxl({
+      quality,
+      effort: 4, // Balanced speed/compression
+    });
+  }
+
+  /**
+   * Check whether the installed sharp can write the given format. Some
+   * formats are only listed as an alias of another (AVIF under heif).
+   */
+  static isFormatAvailable(format: OutputFormat): boolean {
+    return Object.values(sharp.format).some(info =>
+      (info.id === format || info.output.alias?.includes(format)) && info.output.buffer
+    );
+  }
+
+  /**
+   * Open an input with the shared decode limits
+   */
+  private createPipeline(buffer: Buffer): sharp.Sharp {
+    return sharp(buffer, INPUT_OPTIONS);
+  }
+
+  /**
+   * Run an encode recipe on the worker pool against the same decode limits
+   */
+  private run(recipe: SharpRecipe, buffer: Buffer, options: EncodeOptions = {}): Promise<Buffer> {
+    return encodePool.run(
+      { input: buffer, inputOptions: INPUT_OPTIONS, operations: recipe.operations },
+      { jobId: options.jobId, signal: options.signal }
+    );
+  }
+
+  /**
+   * Decode to flattened 8-bit greyscale pixels for perceptual scoring. The
+   * image is fitted inside maxSize unless exact dimensions are given.
+   */
+  async decodeGreyscale(
+    buffer: Buffer,
+    size: { maxSize: number } | { width: number; height: number }
+  ): Promise<{ pixels: Buffer; width: number; height: number }> {
+    const resize: sharp.ResizeOptions = 'maxSize' in size
+      ? { width: size.maxSize, height: size.maxSize, fit: 'inside', withoutEnlargement: true }
+      : { width: size.width, height: size.height, fit: 'fill' };
+
+    const { data, info } = await this.createPipeline(buffer)
+      .rotate()
+      .resize({ ...resize, kernel: sharp.kernel.lanczos3 })
+      .flatten({ background: '#ffffff' })
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return { pixels: data, width: info.width, height: info.height };
+  }
+
+  /**
+   * Decode a flattened 8-bit sRGB sample fitted inside maxSize for content
+   * statistics. Nearest-neighbour sampling keeps noise and hard edges intact
+   * and invents no blended colours.
+   */
+  async decodeSample(buffer: Buffer, maxSize: number): Promise<{ pixels: Buffer; width: number; height: number }> {
+    const { data, info } = await this.createPipeline(buffer)
+      .rotate()
+      .resize({ width: maxSize, height: maxSize, fit: 'inside', withoutEnlargement: true, kernel: sharp.kernel.nearest })
+      .flatten({ background: '#ffffff' })
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return { pixels: data, width: info.width, height: info.height };
+  }
+
+  /**
+   * Read the dimensions of an encoded image
+   */
+  async readDimensions(buffer: Buffer): Promise<{ width: number; height: number }> {
+    const { width, height } = await sharp(buffer).metadata();
+    if (!width || !height) {
+      throw new Error('Invalid image dimensions');
+    }
+    return { width, height };
+  }
+
+  /**
+   * Fully decode an encoded image, throwing if any part of it is unreadable
+   */
+  async verifyDecodes(buffer: Buffer): Promise<void> {
+    await sharp(buffer, { failOn: 'error' }).raw().toBuffer();
   }
 
   /**
    * Extract image metadata
    */
   async extractMetadata(buffer: Buffer): Promise<ImageMetadata> {
-    const metadata = await sharp(buffer).metadata();
+    const metadata = await this.createPipeline(buffer).metadata();
     
     if (!metadata.width || !metadata.height) {
       throw new Error('Invalid image dimensions');
@@ -91,13 +486,14 @@ export class ImageEncoder {
       density: metadata.density,
       hasAlpha: metadata.hasAlpha || false,
       complexity: 0, // Will be calculated by heuristics engine
+      ...this.describeColor(metadata),
     };
   }
 
   /**
-   * Validate image format and size
+   * Validate image format, byte size and pixel count, returning the sniffed format
    */
-  validateImage(buffer: Buffer, maxSize: number): void {
+  async validateImage(buffer: Buffer, maxSize: number): Promise<InputFormat> {
     if (buffer.length === 0) {
       throw new Error('Empty image file');
     }
@@ -106,15 +502,59 @@ export class ImageEncoder {
       throw new Error(`Image too large: ${buffer.length} bytes (max: ${maxSize} bytes)`);
     }
 
-    // Basic format validation
-    const header = buffer.slice(0, 4);
-    const isValidImage = 
-      header[0] === 0xFF && header[1] === 0xD8 && header[2] === 0xFF || // JPEG
-      header[0] === 0x89 && header[1] === 0x50 && header[2] === 0x4E && header[3] === 0x47; // PNG
-
-    if (!isValidImage) {
+    const format = this.detectFormat(buffer);
+    if (!format) {
       throw new Error('Invalid image format');
     }
+
+    // Read only the header so a decompression bomb is refused before decoding
+    let width: number | undefined;
+    let height: number | undefined;
+    try {
+      ({ width, height } = await sharp(buffer, { density: INPUT_CONFIG.svgDensity, limitInputPixels: false }).metadata());
+    } catch (error) {
+      this.log.debug(`Failed to read ${format} header`, error);
+      throw new Error(`Unsupported or corrupt ${format} image`);
+    }
+
+    if (!width || !height) {
+      throw new Error('Invalid image dimensions');
+    }
+
+    if (width * height > INPUT_CONFIG.maxInputPixels) {
+      throw new Error(`Image has too many pixels: ${width}x${height} (max: ${INPUT_CONFIG.maxInputPixels} pixels)`);
+    }
+
+    return format;
   }
-}
 
+  /**
+   * Identify the input format from its magic bytes
+   */
+  private detectFormat(buffer: Buffer): InputFormat | null {
+    const ascii = (start: number, end: number) => buffer.toString('latin1', start, end);
+
+    if (buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) return 'jpeg';
+    if (buffer[0] === 0x89 && ascii(1, 4) === 'PNG') return 'png';
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+    if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'gif';
+    if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'tiff';
+
+    if (ascii(4, 8) === 'ftyp') {
+      // Major brand followed by the compatible brands, up to the end of the box
+      const boxEnd = Math.min(buffer.readUInt32BE(0), buffer.length);
+      const brands: string[] = [ascii(8, 12)];
+      for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+        brands.push(ascii(offset, offset + 4));
+      }
+      if (brands.some(brand => AVIF_BRANDS.includes(brand))) return 'avif';
+      if (brands.some(brand => HEIC_BRANDS.includes(brand))) return 'heic';
+      return null;
+    }
+
+    const text = buffer.toString('utf8', 0, 4096).replace(/^\uFEFF/, '').trimStart();
+    if (text.startsWith('<') && /<svg[\s>]/i.test(text)) return 'svg';
+
+    return null;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Minimal EXIF reader for the IFD0 text fields that metadata policies can keep
+ */
+
+// IFD0 ASCII tags, named as libvips and sharp's withExif() expect them
+export const EXIF_TEXT_TAGS: Record<string, number> = {
+  ImageDescription: 0x010E,
+  Make: 0x010F,
+  Model: 0x0110,
+  Software: 0x0131,
+  DateTime: 0x0132,
+  Artist: 0x013B,
+  HostComputer: 0x013C,
+  Copyright: 0x8298,
+};
+
+const ASCII_TYPE = 2;
+
+/**
+ * Read the IFD0 text fields from a raw EXIF block, as returned by sharp's
+ * metadata(). Malformed blocks yield whatever was read before the fault.
+ */
+export function readExifTextFields(exif: Buffer): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const tagNames = new Map(Object.entries(EXIF_TEXT_TAGS).map(([name, tag]) => [tag, name]));
+
+  // Offsets in the block are relative to the TIFF header after "Exif\0\0"
+  const base = exif.toString('latin1', 0, 6) === 'Exif\0\0' ? 6 : 0;
+  if (exif.length < base + 8) {
+    return fields;
+  }
+
+  const byteOrder = exif.toString('latin1', base, base + 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    return fields;
+  }
+  const little = byteOrder === 'II';
+  const u16 = (offset: number) => little ? exif.readUInt16LE(offset) : exif.readUInt16BE(offset);
+  const u32 = (offset: number) => little ? exif.readUInt32LE(offset) : exif.readUInt32BE(offset);
+
+  try {
+    const ifd = base + u32(base + 4);
+    const count = u16(ifd);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      const name = tagNames.get(u16(entry));
+      if (!name || u16(entry + 2) !== ASCII_TYPE) continue;
+
+      // Values of up to four bytes are stored inline
+      const length = u32(entry + 4);
+      const start = length <= 4 ? entry + 8 : base + u32(entry + 8);
+      if (start + length > exif.length) continue;
+
+      const value = exif.toString('utf8', start, start + length).replace(/\0+$/, '');
+      if (value) {
+        fields[name] = value;
+      }
+    }
+  } catch (error) {
+    // Truncated IFD: keep the fields read so far
+  }
+
+  return fields;
+}
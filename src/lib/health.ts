@@ -0,0 +1,124 @@
+/**
+ * Liveness and readiness checks for load balancers. Readiness encodes a tiny
+ * image in every supported output format to prove the codecs work, and
+ * reports job slot and encode pool saturation separately.
+ */
+
+import sharp from 'sharp';
+import { CodecStatus, OutputFormat, ReadinessReport } from './types';
+import { SUPPORTED_OUTPUT_FORMATS, HEALTH_CONFIG } from './config';
+import { ImageEncoder } from './encoder';
+import { encodePool } from './encode-pool';
+import { ResourceManager } from './api';
+import { compressionCache } from './cache';
+import { logger } from './logger';
+
+const log = logger.child({ context: 'HEALTH' });
+
+// Latest self-test, shared by concurrent probes while it runs
+let selfTest: { codecs: Promise<CodecStatus[]>; startedAt: number } | null = null;
+let sampleImage: Promise<Buffer> | null = null;
+
+export class HealthCheck {
+  /**
+   * The process is up and serving requests
+   */
+  static liveness() {
+    return { status: 'ok' as const, uptime: process.uptime(), timestamp: Date.now() };
+  }
+
+  /**
+   * Codec self-test, job slots, encode pool and cache size. Ready unless a
+   * codec that sharp offers failed its test encode, every job slot is taken,
+   * or every encode worker is busy with more tasks waiting. A saturated pool
+   * wins over failed codecs, since the test encodes queue behind real work
+   * and may have timed out there.
+   */
+  static async readiness(): Promise<ReadinessReport> {
+    const codecs = await this.runSelfTest();
+    const jobs = ResourceManager.getStats();
+    const pool = encodePool.getStats();
+    const cache = compressionCache.getStats();
+
+    const jobsSaturated = !ResourceManager.canProcessRequest();
+    const poolSaturated = pool.busyWorkers >= pool.maxWorkers && pool.queueLength > 0;
+    const status = poolSaturated
+      ? 'saturated'
+      : codecs.some(codec => !codec.ok)
+        ? 'degraded'
+        : jobsSaturated
+          ? 'saturated'
+          : 'ready';
+
+    return {
+      status,
+      timestamp: Date.now(),
+      versions: { sharp: sharp.versions.sharp ?? 'unknown', vips: sharp.versions.vips },
+      codecs,
+      jobs: { activeJobs: jobs.activeJobs, maxConcurrentJobs: jobs.maxConcurrentJobs, queuedJobs: jobs.queuedJobs, saturated: jobsSaturated },
+      encodePool: { busyWorkers: pool.busyWorkers, maxWorkers: pool.maxWorkers, queueLength: pool.queueLength, saturated: poolSaturated },
+      cache: { entries: cache.size, bytes: cache.bytes },
+    };
+  }
+
+  /**
+   * Test every format, reusing a recent result so frequent probes don't
+   * add encode load
+   */
+  private static runSelfTest(): Promise<CodecStatus[]> {
+    if (!selfTest || Date.now() - selfTest.startedAt > HEALTH_CONFIG.selfTestTtl) {
+      selfTest = {
+        codecs: this.getSampleImage().then(sample =>
+          Promise.all(SUPPORTED_OUTPUT_FORMATS.map(format => this.testCodec(sample, format)))
+        ),
+        startedAt: Date.now(),
+      };
+    }
+    return selfTest.codecs;
+  }
+
+  /**
+   * Encode the sample the way compression does, through the encoder and
+   * the worker pool, giving up after the self-test timeout
+   */
+  private static async testCodec(sample: Buffer, format: OutputFormat): Promise<CodecStatus> {
+    if (!ImageEncoder.isFormatAvailable(format)) {
+      return { format, available: false, ok: true };
+    }
+
+    const startTime = Date.now();
+    const signal = AbortSignal.timeout(HEALTH_CONFIG.selfTestTimeout);
+    try {
+      const output = await new ImageEncoder(log).encode(sample, 75, format, { signal });
+      if (output.length === 0) {
+        throw new Error('Encoder returned no data');
+      }
+      return { format, available: true, ok: true, durationMs: Date.now() - startTime };
+    } catch (error) {
+      const message = signal.aborted
+        ? `Test encode timed out after ${HEALTH_CONFIG.selfTestTimeout}ms`
+        : error instanceof Error ? error.message : String(error);
+      log.warn(`Self-test encode failed for ${format}`, { error: message });
+      return { format, available: true, ok: false, durationMs: Date.now() - startTime, error: message };
+    }
+  }
+
+  /**
+   * 16x16 two-colour PNG, made once
+   */
+  private static getSampleImage(): Promise<Buffer> {
+    sampleImage ??= sharp({ create: { width: 16, height: 16, channels: 3, background: { r: 200, g: 80, b: 40 } } })
+      .composite([{
+        input: { create: { width: 8, height: 8, channels: 3, background: { r: 30, g: 120, b: 220 } } },
+        left: 4,
+        top: 4,
+      }])
+      .png()
+      .toBuffer()
+      .catch(error => {
+        sampleImage = null;
+        throw error;
+      });
+    return sampleImage;
+  }
+}
@@ -2,13 +2,23 @@
  * Adaptive heuristics engine for intelligent compression parameter estimation
  */
 
-import { ImageMetadata, AdaptiveHeuristics } from './types';
-import { ADAPTIVE_CONFIG } from './config';
-import { logger } from './logger';
+import { ImageMetadata, ImageFeatures, AdaptiveHeuristics, HeuristicsTarget, QualityModelFile } from './types';
+import { ADAPTIVE_CONFIG, FEATURE_CONFIG } from './config';
+import { logger, Logger } from './logger';
+import { QualityRegression } from './quality-model';
 
 export class AdaptiveHeuristicsEngine {
+  private qualityModel: QualityModelFile | null;
+  private log: Logger;
+
+  constructor(qualityModel: QualityModelFile | null = null, log: Logger = logger) {
+    this.qualityModel = qualityModel;
+    this.log = log.child({ context: 'HEURISTICS' });
+  }
+
   /**
-   * Calculate image complexity based on dimensions, channels, and file size
+   * Calculate image complexity based on dimensions, channels, and file size,
+   * dominated by the content features when they were extracted
    */
   calculateComplexity(metadata: ImageMetadata): number {
     const { width, height, channels, hasAlpha } = metadata;
@@ -24,13 +34,44 @@ export class AdaptiveHeuristicsEngine {
     const sizeComplexity = Math.min(1, Math.log10(metadata.size) / 8); // 0-1 scale
     
     // Combined complexity (weighted average)
-    const complexity = (dimensionComplexity * 0.4 + channelComplexity * 0.3 + sizeComplexity * 0.3);
+    const structuralComplexity = (dimensionComplexity * 0.4 + channelComplexity * 0.3 + sizeComplexity * 0.3);
+    
+    if (!metadata.features) {
+      this.log.debug(`Complexity calculation: dimensions=${dimensionComplexity.toFixed(3)}, channels=${channelComplexity.toFixed(3)}, size=${sizeComplexity.toFixed(3)}, total=${structuralComplexity.toFixed(3)}`);
+      return structuralComplexity;
+    }
+    
+    // Pixel content says far more about compressibility than container facts
+    const contentComplexity = this.calculateContentComplexity(metadata.features);
+    const complexity = contentComplexity * 0.7 + structuralComplexity * 0.3;
     
-    logger.debug(`Complexity calculation: dimensions=${dimensionComplexity.toFixed(3)}, channels=${channelComplexity.toFixed(3)}, size=${sizeComplexity.toFixed(3)}, total=${complexity.toFixed(3)}`);
+    this.log.debug(`Complexity calculation: content=${contentComplexity.toFixed(3)}, structural=${structuralComplexity.toFixed(3)}, total=${complexity.toFixed(3)}`);
     
     return complexity;
   }
   
+  /**
+   * Combine the content features into a 0-1 score; each feature saturates at
+   * the level where it counts as fully complex
+   */
+  private calculateContentComplexity(features: ImageFeatures): number {
+    const { saturation } = FEATURE_CONFIG;
+    
+    const edges = Math.min(1, features.edgeDensity / saturation.edgeDensity);
+    const entropy = features.entropy / 8;
+    const colors = Math.min(1, Math.log2(Math.max(1, features.colorCount)) / saturation.colorBits);
+    const noise = this.noiseLevel(features);
+    
+    return edges * 0.35 + entropy * 0.2 + colors * 0.2 + noise * 0.25;
+  }
+  
+  /**
+   * Estimated noise as a 0-1 share of the saturation level
+   */
+  private noiseLevel(features: ImageFeatures): number {
+    return Math.min(1, features.noise / FEATURE_CONFIG.saturation.noise);
+  }
+  
   /**
    * Estimate starting quality based on image characteristics
    */
@@ -51,11 +92,31 @@ export class AdaptiveHeuristicsEngine {
       )
     );
     
-    logger.debug(`Quality estimation: base=${baseQuality}, complexityPenalty=${complexityPenalty.toFixed(1)}, sizePenalty=${sizePenalty.toFixed(1)}, estimated=${estimatedQuality.toFixed(1)}`);
+    this.log.debug(`Quality estimation: base=${baseQuality}, complexityPenalty=${complexityPenalty.toFixed(1)}, sizePenalty=${sizePenalty.toFixed(1)}, estimated=${estimatedQuality.toFixed(1)}`);
     
     return Math.round(estimatedQuality);
   }
   
+  /**
+   * Ask the learned model for the starting quality; null while it is cold for
+   * the format or the image has no content features
+   */
+  predictStartingQuality(metadata: ImageMetadata, target: HeuristicsTarget): number | null {
+    if (!this.qualityModel || !metadata.features) {
+      return null;
+    }
+
+    const predicted = QualityRegression.predict(this.qualityModel, {
+      ...target,
+      hasAlpha: metadata.hasAlpha,
+      features: metadata.features,
+    });
+    if (predicted !== null) {
+      this.log.debug(`Quality prediction: format=${target.format}, targetBytes=${target.targetBytes}, predicted=${predicted}`);
+    }
+    return predicted;
+  }
+  
   /**
    * Calculate maximum iterations based on image size and complexity
    */
@@ -71,11 +132,13 @@ export class AdaptiveHeuristicsEngine {
       maxIterations = ADAPTIVE_CONFIG.maxIterations.large;
     }
     
-    // Adjust based on complexity
-    const complexityMultiplier = 0.8 + (complexity * 0.4); // 0.8 to 1.2
+    // Adjust based on complexity; noise makes size jump unevenly between
+    // neighbouring qualities, so noisy images get extra probes
+    const noise = metadata.features ? this.noiseLevel(metadata.features) : 0;
+    const complexityMultiplier = 0.8 + (complexity * 0.4) + (noise * 0.2); // 0.8 to 1.4
     maxIterations = Math.round(maxIterations * complexityMultiplier);
     
-    logger.debug(`Max iterations: base=${ADAPTIVE_CONFIG.maxIterations.large}, complexity=${complexity.toFixed(3)}, multiplier=${complexityMultiplier.toFixed(3)}, final=${maxIterations}`);
+    this.log.debug(`Max iterations: base=${ADAPTIVE_CONFIG.maxIterations.large}, complexity=${complexity.toFixed(3)}, multiplier=${complexityMultiplier.toFixed(3)}, final=${maxIterations}`);
     
     return maxIterations;
   }
@@ -83,14 +146,16 @@ export class AdaptiveHeuristicsEngine {
   /**
    * Generate comprehensive heuristics for compression optimization
    */
-  generateHeuristics(metadata: ImageMetadata): AdaptiveHeuristics {
+  generateHeuristics(metadata: ImageMetadata, target?: HeuristicsTarget): AdaptiveHeuristics {
     const complexity = this.calculateComplexity(metadata);
-    const estimatedQuality = this.estimateStartingQuality(metadata);
+    const predictedQuality = target ? this.predictStartingQuality(metadata, target) : null;
+    const estimatedQuality = predictedQuality ?? this.estimateStartingQuality(metadata);
     const maxIterations = this.calculateMaxIterations(metadata);
     
     const heuristics: AdaptiveHeuristics = {
       imageComplexity: complexity,
       estimatedQuality,
+      qualitySource: predictedQuality !== null ? 'model' : 'formula',
       maxIterations,
       timeoutStrategy: metadata.size > ADAPTIVE_CONFIG.mediumImageThreshold ? 'conservative' : 'aggressive',
       parallelTests: Math.min(
@@ -99,7 +164,7 @@ export class AdaptiveHeuristicsEngine {
       ),
     };
     
-    logger.info(`Generated heuristics: complexity=${complexity.toFixed(3)}, quality=${estimatedQuality}, iterations=${maxIterations}, strategy=${heuristics.timeoutStrategy}, parallelTests=${heuristics.parallelTests}`);
+    this.log.info(`Generated heuristics: complexity=${complexity.toFixed(3)}, quality=${estimatedQuality} (${heuristics.qualitySource}), iterations=${maxIterations}, strategy=${heuristics.timeoutStrategy}, parallelTests=${heuristics.parallelTests}`);
     
     return heuristics;
   }
@@ -0,0 +1,41 @@
+/**
+ * Minimal ICC profile reader for identifying a source's colour space
+ */
+
+/**
+ * Read the profile description ('desc' tag), handling both the ICC v2
+ * textDescriptionType and the v4 multiLocalizedUnicodeType. Returns null
+ * for malformed profiles.
+ */
+export function readIccDescription(icc: Buffer): string | null {
+  try {
+    const tagCount = icc.readUInt32BE(128);
+    for (let i = 0; i < tagCount; i++) {
+      const entry = 132 + i * 12;
+      if (icc.toString('latin1', entry, entry + 4) !== 'desc') continue;
+
+      const offset = icc.readUInt32BE(entry + 4);
+      const type = icc.toString('latin1', offset, offset + 4);
+
+      if (type === 'desc') {
+        const length = icc.readUInt32BE(offset + 8);
+        return icc.toString('latin1', offset + 12, offset + 12 + length).replace(/\0+$/, '');
+      }
+
+      if (type === 'mluc') {
+        // First localized record: language, country, byte length, offset
+        const length = icc.readUInt32BE(offset + 20);
+        const start = offset + icc.readUInt32BE(offset + 24);
+        // UTF-16BE; copy before swapping so the caller's buffer is untouched
+        const text = Buffer.from(icc.subarray(start, start + length - (length % 2)));
+        return text.swap16().toString('utf16le').replace(/\0+$/, '');
+      }
+
+      return null;
+    }
+  } catch (error) {
+    // Truncated tag table or out-of-range offsets
+  }
+
+  return null;
+}
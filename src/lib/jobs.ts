@@ -0,0 +1,379 @@
+/**
+ * Asynchronous compression jobs backed by an in-process queue
+ */
+
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { OutputFormat, CompressionMode, RequestOptions, CompressionJob, ApiKeyCharge } from './types';
+import { JOB_CONFIG, CACHE_CONFIG } from './config';
+import { logger } from './logger';
+import { CompressionPipeline } from './pipeline';
+import { ResourceManager, FilenameGenerator } from './api';
+import { apiKeyGuard } from './auth';
+import { compressionCache } from './cache';
+
+type JobBufferKind = 'input' | 'result';
+
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Persistence for job records and their input/result images
+ */
+export interface JobStore {
+  save(job: CompressionJob): Promise<void>;
+  get(id: string): Promise<CompressionJob | null>;
+  list(): Promise<CompressionJob[]>;
+  delete(id: string): Promise<void>;
+  saveBuffer(id: string, kind: JobBufferKind, buffer: Buffer): Promise<void>;
+  getBuffer(id: string, kind: JobBufferKind): Promise<Buffer | null>;
+  deleteBuffer(id: string, kind: JobBufferKind): Promise<void>;
+}
+
+/**
+ * Job store that lives and dies with the process
+ */
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, CompressionJob>();
+  private buffers = new Map<string, Buffer>();
+
+  async save(job: CompressionJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async get(id: string): Promise<CompressionJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async list(): Promise<CompressionJob[]> {
+    return Array.from(this.jobs.values(), job => ({ ...job }));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+    this.buffers.delete(`${id}.input`);
+    this.buffers.delete(`${id}.result`);
+  }
+
+  async saveBuffer(id: string, kind: JobBufferKind, buffer: Buffer): Promise<void> {
+    this.buffers.set(`${id}.${kind}`, buffer);
+  }
+
+  async getBuffer(id: string, kind: JobBufferKind): Promise<Buffer | null> {
+    return this.buffers.get(`${id}.${kind}`) || null;
+  }
+
+  async deleteBuffer(id: string, kind: JobBufferKind): Promise<void> {
+    this.buffers.delete(`${id}.${kind}`);
+  }
+}
+
+/**
+ * Job store that keeps one JSON record plus image files per job in a
+ * directory, so queued jobs survive a restart
+ */
+export class FileJobStore implements JobStore {
+  private directory: string;
+  private ready: Promise<void>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+  }
+
+  async save(job: CompressionJob): Promise<void> {
+    await this.ready;
+    const file = this.pathFor(job.id, 'json');
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(job));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  async get(id: string): Promise<CompressionJob | null> {
+    const data = await this.read(this.pathFor(id, 'json'));
+    return data ? JSON.parse(data.toString('utf8')) : null;
+  }
+
+  async list(): Promise<CompressionJob[]> {
+    await this.ready;
+    const files = await fs.readdir(this.directory);
+    const jobs = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(path.basename(file, '.json')))
+    );
+    return jobs.filter((job): job is CompressionJob => job !== null);
+  }
+
+  async delete(id: string): Promise<void> {
+    await Promise.all(
+      ['json', 'input', 'result'].map(ext => fs.rm(this.pathFor(id, ext), { force: true }))
+    );
+  }
+
+  async saveBuffer(id: string, kind: JobBufferKind, buffer: Buffer): Promise<void> {
+    await this.ready;
+    await fs.writeFile(this.pathFor(id, kind), buffer);
+  }
+
+  async getBuffer(id: string, kind: JobBufferKind): Promise<Buffer | null> {
+    return this.read(this.pathFor(id, kind));
+  }
+
+  async deleteBuffer(id: string, kind: JobBufferKind): Promise<void> {
+    await fs.rm(this.pathFor(id, kind), { force: true });
+  }
+
+  private pathFor(id: string, ext: string): string {
+    return path.join(this.directory, `${id}.${ext}`);
+  }
+
+  private async read(file: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
+
+/**
+ * In-process job queue running compressions under the shared job slots
+ */
+export class JobQueue {
+  private store: JobStore;
+  private pending: string[] = [];
+  private running = 0;
+  private writes = new Map<string, Promise<void>>();
+  private events = new EventEmitter().setMaxListeners(0);
+  private lastCleanup = Date.now();
+  private recovered: Promise<void>;
+
+  constructor(store: JobStore) {
+    this.store = store;
+    this.recovered = this.recover();
+  }
+
+  /**
+   * Persist the input and queue a new job
+   */
+  async enqueue(
+    input: Buffer,
+    sourceName: string,
+    format: OutputFormat,
+    mode: CompressionMode,
+    options: RequestOptions,
+    owner: string,
+    charge?: ApiKeyCharge
+  ): Promise<CompressionJob> {
+    await this.recovered;
+
+    const now = Date.now();
+    const job: CompressionJob = {
+      id: uuidv4(),
+      status: 'queued',
+      sourceName,
+      inputSize: input.length,
+      format,
+      mode,
+      options,
+      createdAt: now,
+      updatedAt: now,
+      owner,
+      charge,
+    };
+
+    await this.store.saveBuffer(job.id, 'input', input);
+    await this.store.save(job);
+    this.pending.push(job.id);
+    logger.info(`Job queued (${this.pending.length} pending)`, null, job.id, 'JOBS');
+
+    this.pump();
+    this.cleanup();
+    return job;
+  }
+
+  /**
+   * Look up a job. Given an owner, another key's job is treated as missing,
+   * so callers can't tell it exists.
+   */
+  async get(id: string, owner?: string): Promise<CompressionJob | null> {
+    if (!JOB_ID_PATTERN.test(id)) return null;
+    await this.recovered;
+    const job = await this.store.get(id);
+    if (job && owner !== undefined && job.owner !== owner) return null;
+    return job;
+  }
+
+  async getResult(id: string): Promise<Buffer | null> {
+    if (!JOB_ID_PATTERN.test(id)) return null;
+    return this.store.getBuffer(id, 'result');
+  }
+
+  /**
+   * Listen for state changes of one job; returns the unsubscribe function
+   */
+  subscribe(id: string, listener: (job: CompressionJob) => void): () => void {
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  isFull(): boolean {
+    return this.pending.length >= JOB_CONFIG.maxQueuedJobs;
+  }
+
+  getStats() {
+    return {
+      pendingJobs: this.pending.length,
+      runningJobs: this.running,
+    };
+  }
+
+  /**
+   * Start queued jobs until the queue's own concurrency is reached
+   */
+  private pump(): void {
+    while (this.running < JOB_CONFIG.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      this.running++;
+      this.run(id)
+        .catch(error => logger.error('Job runner failed', error, id, 'JOBS'))
+        .finally(() => {
+          this.running--;
+          this.pump();
+        });
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const job = await this.store.get(id);
+    const input = await this.store.getBuffer(id, 'input');
+    if (!job || !input) {
+      logger.warn('Job or its input disappeared before it could run', null, id, 'JOBS');
+      return;
+    }
+
+    // A repeat of an earlier compression is answered from the result cache,
+    // the same one /api/compress uses, without waiting for a job slot
+    const cacheKey = compressionCache.generateKey(input, job.format, job.mode, job.options);
+    const cached = await compressionCache.get(cacheKey);
+    if (!cached) {
+      await ResourceManager.acquireJob();
+    }
+
+    try {
+      this.update(job, { status: 'running' });
+      let result = cached;
+      if (result) {
+        logger.info('Cache hit', null, id, 'JOBS');
+      } else {
+        ({ result } = await CompressionPipeline.run(input, job.format, job.mode, {
+          ...job.options,
+          maxWallTime: JOB_CONFIG.maxWallTime,
+          requestId: id,
+          onProgress: progress => this.update(job, { progress }),
+        }));
+
+        void compressionCache.set(cacheKey, result);
+        if (ResourceManager.getStats().totalJobsProcessed % CACHE_CONFIG.cleanupInterval === 0) {
+          void compressionCache.cleanup();
+        }
+      }
+
+      const { buffer, ...summary } = result;
+      const filename = FilenameGenerator.generate(job.sourceName, job.format, result, job.mode);
+      await this.store.saveBuffer(id, 'result', buffer);
+      await this.update(job, { status: 'completed', result: { ...summary, filename } });
+      logger.info(`Job completed: ${result.size} bytes in ${result.processingTime}ms`, null, id, 'JOBS');
+    } catch (error) {
+      logger.error('Job failed', error, id, 'JOBS');
+      await this.update(job, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Compression failed',
+      });
+      await apiKeyGuard.refund(job.charge);
+    } finally {
+      if (!cached) {
+        ResourceManager.endJob();
+      }
+      await this.store.deleteBuffer(id, 'input');
+    }
+  }
+
+  /**
+   * Apply changes to a job and persist them, keeping writes for the same
+   * job in order so a late progress update never overwrites the final state
+   */
+  private update(job: CompressionJob, changes: Partial<CompressionJob>): Promise<void> {
+    Object.assign(job, changes, { updatedAt: Date.now() });
+    const snapshot = { ...job };
+    this.events.emit(job.id, snapshot);
+
+    const write = (this.writes.get(job.id) || Promise.resolve())
+      .then(() => this.store.save(snapshot))
+      .catch(error => logger.warn('Failed to persist job state', error, job.id, 'JOBS'));
+
+    this.writes.set(job.id, write);
+    write.then(() => {
+      if (this.writes.get(job.id) === write) this.writes.delete(job.id);
+    });
+    return write;
+  }
+
+  /**
+   * Re-queue jobs a previous process accepted but never finished
+   */
+  private async recover(): Promise<void> {
+    try {
+      const jobs = await this.store.list();
+      const unfinished = jobs
+        .filter(job => job.status === 'queued' || job.status === 'running')
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+      for (const job of unfinished) {
+        await this.update(job, { status: 'queued', progress: undefined });
+        this.pending.push(job.id);
+      }
+
+      if (unfinished.length > 0) {
+        logger.info(`Recovered ${unfinished.length} unfinished jobs`, null, undefined, 'JOBS');
+        this.pump();
+      }
+    } catch (error) {
+      logger.error('Job recovery failed', error, undefined, 'JOBS');
+    }
+  }
+
+  /**
+   * Drop finished jobs older than the TTL
+   */
+  private cleanup(): void {
+    const now = Date.now();
+    if (now - this.lastCleanup < JOB_CONFIG.cleanupInterval) return;
+    this.lastCleanup = now;
+
+    this.store.list()
+      .then(jobs => Promise.all(
+        jobs
+          .filter(job => (job.status === 'completed' || job.status === 'failed') && now - job.updatedAt > JOB_CONFIG.ttl)
+          .map(job => this.store.delete(job.id))
+      ))
+      .then(removed => {
+        if (removed.length > 0) {
+          logger.debug(`Job cleanup: removed ${removed.length} expired jobs`, null, undefined, 'JOBS');
+        }
+      })
+      .catch(error => logger.warn('Job cleanup failed', error, undefined, 'JOBS'));
+  }
+}
+
+export const jobQueue = new JobQueue(
+  JOB_CONFIG.store === 'file'
+    ? new FileJobStore(JOB_CONFIG.directory || path.join(os.tmpdir(), 'pixelpress-jobs'))
+    : new MemoryJobStore()
+);
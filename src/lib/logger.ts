@@ -1,7 +1,12 @@
 /**
- * Centralized logging system for the Exact80 compression service
+ * Centralized structured logging for the Exact80 compression service. Each
+ * entry is one JSON object per line, fanned out to the configured sinks.
  */
 
+import fs from 'fs';
+import path from 'path';
+import { LOG_CONFIG } from './config';
+
 export enum LogLevel {
   DEBUG = 0,
   INFO = 1,
@@ -11,51 +16,186 @@ export enum LogLevel {
 
 export interface LogEntry {
   timestamp: string;
-  level: LogLevel;
+  level: 'debug' | 'info' | 'warn' | 'error';
   message: string;
-  data?: any;
   requestId?: string;
   context?: string;
+  data?: unknown;
+}
+
+// Fields a child logger stamps on every entry it writes
+export interface LogBindings {
+  requestId?: string;
+  context?: string;
+}
+
+/**
+ * Destination for log entries. `line` is the entry already serialized.
+ */
+export interface LogSink {
+  write(entry: LogEntry, line: string): void;
+}
+
+/**
+ * Writes to the console, warnings and errors on stderr
+ */
+export class ConsoleSink implements LogSink {
+  write(entry: LogEntry, line: string): void {
+    switch (entry.level) {
+      case 'debug':
+        console.debug(line);
+        break;
+      case 'info':
+        console.log(line);
+        break;
+      case 'warn':
+        console.warn(line);
+        break;
+      case 'error':
+        console.error(line);
+        break;
+    }
+  }
 }
 
-class Logger {
-  private level: LogLevel = LogLevel.INFO;
+/**
+ * Appends to a file, rolling it over to file.1, file.2, ... once it passes
+ * maxBytes and keeping at most maxFiles old files. Writes are synchronous so
+ * entries stay in order across a rotation and survive a crash.
+ */
+export class RotatingFileSink implements LogSink {
+  private file: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private fd: number;
+  private bytes: number;
 
-  constructor(level: LogLevel = LogLevel.INFO) {
-    this.level = level;
+  constructor(file: string, maxBytes: number, maxFiles: number) {
+    this.file = file;
+    this.maxBytes = maxBytes;
+    this.maxFiles = maxFiles;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.fd = fs.openSync(file, 'a');
+    this.bytes = fs.fstatSync(this.fd).size;
   }
 
-  private shouldLog(level: LogLevel): boolean {
-    return level >= this.level;
+  write(entry: LogEntry, line: string): void {
+    const data = `${line}\n`;
+    const size = Buffer.byteLength(data);
+    if (this.bytes > 0 && this.bytes + size > this.maxBytes) {
+      this.rotate();
+    }
+    fs.writeSync(this.fd, data);
+    this.bytes += size;
   }
 
-  private formatMessage(level: LogLevel, message: string, data?: any, requestId?: string, context?: string): string {
-    const timestamp = new Date().toISOString();
-    const levelName = LogLevel[level];
-    const requestPrefix = requestId ? `[${requestId}]` : '';
-    const contextPrefix = context ? `[${context}]` : '';
-    
-    return `${timestamp} ${requestPrefix}${contextPrefix} [${levelName}] ${message}`;
+  /**
+   * Shift the old files up by one and start a fresh file
+   */
+  private rotate(): void {
+    fs.closeSync(this.fd);
+    try {
+      fs.rmSync(`${this.file}.${this.maxFiles}`, { force: true });
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        if (fs.existsSync(`${this.file}.${i}`)) {
+          fs.renameSync(`${this.file}.${i}`, `${this.file}.${i + 1}`);
+        }
+      }
+      if (this.maxFiles > 0) {
+        fs.renameSync(this.file, `${this.file}.1`);
+      } else {
+        fs.rmSync(this.file, { force: true });
+      }
+    } catch (error) {
+      console.error(`Log rotation of ${this.file} failed`, error);
+    }
+    this.fd = fs.openSync(this.file, 'a');
+    this.bytes = fs.fstatSync(this.fd).size;
+  }
+}
+
+/**
+ * Keeps the most recent entries in memory, for tests and diagnostics
+ */
+export class MemorySink implements LogSink {
+  private capacity: number;
+  private buffer: LogEntry[] = [];
+  private next = 0;
+
+  constructor(capacity: number = 1000) {
+    this.capacity = capacity;
+  }
+
+  write(entry: LogEntry): void {
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(entry);
+    } else {
+      this.buffer[this.next] = entry;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /**
+   * Retained entries, oldest first
+   */
+  entries(): LogEntry[] {
+    return this.buffer.length < this.capacity
+      ? [...this.buffer]
+      : [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)];
+  }
+
+  clear(): void {
+    this.buffer = [];
+    this.next = 0;
+  }
+}
+
+// Level and sinks are shared by a logger and all of its children
+interface LoggerSettings {
+  level: LogLevel;
+  sinks: LogSink[];
+}
+
+export class Logger {
+  private settings: LoggerSettings;
+  private bindings: LogBindings;
+
+  constructor(settings: LoggerSettings, bindings: LogBindings = {}) {
+    this.settings = settings;
+    this.bindings = bindings;
+  }
+
+  /**
+   * A logger that stamps the given request id and context on every entry,
+   * unless a call passes its own
+   */
+  child(bindings: LogBindings): Logger {
+    return new Logger(this.settings, { ...this.bindings, ...bindings });
+  }
+
+  private shouldLog(level: LogLevel): boolean {
+    return level >= this.settings.level;
   }
 
   private log(level: LogLevel, message: string, data?: any, requestId?: string, context?: string): void {
     if (!this.shouldLog(level)) return;
 
-    const formattedMessage = this.formatMessage(level, message, data, requestId, context);
-    
-    switch (level) {
-      case LogLevel.DEBUG:
-        console.debug(formattedMessage, data || '');
-        break;
-      case LogLevel.INFO:
-        console.log(formattedMessage, data || '');
-        break;
-      case LogLevel.WARN:
-        console.warn(formattedMessage, data || '');
-        break;
-      case LogLevel.ERROR:
-        console.error(formattedMessage, data || '');
-        break;
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level: LogLevel[level].toLowerCase() as LogEntry['level'],
+      message,
+      requestId: requestId ?? this.bindings.requestId,
+      context: context ?? this.bindings.context,
+      data: data ?? undefined,
+    };
+    const line = Logger.serialize(entry);
+
+    for (const sink of this.settings.sinks) {
+      try {
+        sink.write(entry, line);
+      } catch (error) {
+        console.error('Log sink failed', error);
+      }
     }
   }
 
@@ -76,11 +216,53 @@ class Logger {
   }
 
   setLevel(level: LogLevel): void {
-    this.level = level;
+    this.settings.level = level;
+  }
+
+  addSink(sink: LogSink): void {
+    this.settings.sinks.push(sink);
+  }
+
+  removeSink(sink: LogSink): void {
+    this.settings.sinks = this.settings.sinks.filter(other => other !== sink);
+  }
+
+  /**
+   * JSON for one entry. Errors keep their name, message, stack and code, and
+   * data that can't be serialized is logged as a string instead.
+   */
+  private static serialize(entry: LogEntry): string {
+    const replacer = (_key: string, value: unknown) => {
+      if (value instanceof Error) {
+        const { code } = value as NodeJS.ErrnoException;
+        return { name: value.name, message: value.message, stack: value.stack, ...(code ? { code } : {}) };
+      }
+      return typeof value === 'bigint' ? value.toString() : value;
+    };
+
+    try {
+      return JSON.stringify(entry, replacer);
+    } catch (error) {
+      return JSON.stringify({ ...entry, data: String(entry.data) });
+    }
   }
 }
 
-export const logger = new Logger(
-  process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
-);
+/**
+ * Level from LOG_LEVEL, defaulting to debug in development and info otherwise
+ */
+function resolveLevel(name?: string): LogLevel {
+  const level: unknown = LogLevel[name?.toUpperCase() as keyof typeof LogLevel];
+  if (typeof level === 'number') {
+    return level;
+  }
+  return process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO;
+}
 
+export const logger = new Logger({
+  level: resolveLevel(LOG_CONFIG.level),
+  sinks: [
+    new ConsoleSink(),
+    ...(LOG_CONFIG.file ? [new RotatingFileSink(LOG_CONFIG.file, LOG_CONFIG.maxFileBytes, LOG_CONFIG.maxFiles)] : []),
+  ],
+});
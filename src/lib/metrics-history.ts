@@ -0,0 +1,109 @@
+/**
+ * Rolling dashboard figures derived from successive metrics snapshots.
+ * Browser-safe: depends on the snapshot types only.
+ */
+
+import type { MetricFamily, MetricSeries, MetricsSnapshot } from './types';
+
+// One chart sample, covering the interval since the previous snapshot
+export interface MetricsPoint {
+  timestamp: number;
+  throughput: number; // Compressions finished per minute
+  latencyP50: number | null; // Seconds; null when nothing finished in the interval
+  latencyP95: number | null;
+  cacheHitRate: number | null; // Null without cache lookups in the interval
+  errorRate: number | null;
+  activeJobs: number;
+  maxJobs: number;
+}
+
+export class MetricsHistory {
+  /**
+   * Compare two snapshots. Counters that went backwards mean the server
+   * restarted, in which case the current totals are the interval's.
+   */
+  static point(previous: MetricsSnapshot, current: MetricsSnapshot): MetricsPoint {
+    const minutes = Math.max(1, current.timestamp - previous.timestamp) / 60_000;
+    const delta = (name: string, filter?: (series: MetricSeries) => boolean) => {
+      const now = this.total(current, name, filter);
+      const before = this.total(previous, name, filter);
+      return now >= before ? now - before : now;
+    };
+
+    const succeeded = delta('pixelpress_compressions_total', series => series.labels.outcome === 'success');
+    const failed = delta('pixelpress_compressions_total', series => series.labels.outcome === 'error');
+    const hits = delta('pixelpress_cache_hits_total');
+    const misses = delta('pixelpress_cache_misses_total');
+    const latency = this.bucketDelta(
+      this.family(previous, 'pixelpress_compression_duration_seconds'),
+      this.family(current, 'pixelpress_compression_duration_seconds')
+    );
+
+    return {
+      timestamp: current.timestamp,
+      throughput: (succeeded + failed) / minutes,
+      latencyP50: this.quantile(0.5, latency),
+      latencyP95: this.quantile(0.95, latency),
+      cacheHitRate: hits + misses > 0 ? hits / (hits + misses) : null,
+      errorRate: succeeded + failed > 0 ? failed / (succeeded + failed) : null,
+      activeJobs: this.total(current, 'pixelpress_active_jobs'),
+      maxJobs: this.total(current, 'pixelpress_max_concurrent_jobs'),
+    };
+  }
+
+  /**
+   * Estimate a quantile from cumulative buckets, interpolating linearly
+   * inside the bucket it falls in, as Prometheus' histogram_quantile does
+   */
+  static quantile(q: number, buckets: Array<{ le: string; count: number }>): number | null {
+    const total = buckets.length > 0 ? buckets[buckets.length - 1].count : 0;
+    if (total === 0) return null;
+
+    const rank = q * total;
+    let lowerBound = 0;
+    let lowerCount = 0;
+    for (const bucket of buckets) {
+      if (bucket.count >= rank) {
+        // Past the last finite bound all we know is the bound itself
+        if (bucket.le === '+Inf') return lowerBound;
+        const upperBound = Number(bucket.le);
+        const inBucket = bucket.count - lowerCount;
+        return inBucket > 0 ? lowerBound + (upperBound - lowerBound) * ((rank - lowerCount) / inBucket) : upperBound;
+      }
+      if (bucket.le !== '+Inf') lowerBound = Number(bucket.le);
+      lowerCount = bucket.count;
+    }
+    return lowerBound;
+  }
+
+  private static family(snapshot: MetricsSnapshot, name: string): MetricFamily | undefined {
+    return snapshot.metrics.find(family => family.name === name);
+  }
+
+  private static total(snapshot: MetricsSnapshot, name: string, filter?: (series: MetricSeries) => boolean): number {
+    return (this.family(snapshot, name)?.series ?? [])
+      .filter(series => !filter || filter(series))
+      .reduce((sum, series) => sum + (series.value ?? 0), 0);
+  }
+
+  /**
+   * Cumulative bucket counts added between two snapshots, merged across
+   * all label sets of the histogram
+   */
+  private static bucketDelta(previous: MetricFamily | undefined, current: MetricFamily | undefined): Array<{ le: string; count: number }> {
+    const merge = (family: MetricFamily | undefined) => {
+      const counts = new Map<string, number>();
+      for (const series of family?.series ?? []) {
+        for (const bucket of series.buckets ?? []) {
+          counts.set(bucket.le, (counts.get(bucket.le) ?? 0) + bucket.count);
+        }
+      }
+      return counts;
+    };
+
+    const before = merge(previous);
+    const now = merge(current);
+    const restarted = Array.from(now).some(([le, count]) => count < (before.get(le) ?? 0));
+    return Array.from(now, ([le, count]) => ({ le, count: restarted ? count : count - (before.get(le) ?? 0) }));
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Server metrics registry, exported as Prometheus text or JSON
+ */
+
+import os from 'os';
+import { OutputFormat, CompressionMode, CompressionResult, MetricType, MetricSeries, MetricFamily, MetricsSnapshot, ServerMetricsSummary } from './types';
+import { METRICS_CONFIG } from './config';
+import { ResourceManager } from './api';
+import { compressionCache } from './cache';
+import { encodePool } from './encode-pool';
+
+type Labels = Record<string, string>;
+
+// Values read from their owner at scrape time: one unlabelled number, a
+// list of labelled ones, or null to leave the metric out
+type Collector = () => number | null | Array<{ labels: Labels; value: number }>;
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+/**
+ * Counter or gauge, either updated in place or read from a collector
+ */
+class ScalarMetric {
+  private name: string;
+  private help: string;
+  private type: Exclude<MetricType, 'histogram'>;
+  private collector?: Collector;
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string, type: Exclude<MetricType, 'histogram'>, collector?: Collector) {
+    this.name = name;
+    this.help = help;
+    this.type = type;
+    this.collector = collector;
+  }
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    this.values.set(key, { labels, value: (current?.value ?? 0) + amount });
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  collect(): MetricFamily {
+    let series: MetricSeries[] = Array.from(this.values.values(), ({ labels, value }) => ({ labels, value }));
+    if (this.collector) {
+      const collected = this.collector();
+      series = collected === null ? [] : typeof collected === 'number' ? [{ labels: {}, value: collected }] : collected;
+    }
+    return { name: this.name, help: this.help, type: this.type, series };
+  }
+}
+
+class Histogram {
+  private name: string;
+  private help: string;
+  private bounds: readonly number[];
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, bounds: readonly number[]) {
+    this.name = name;
+    this.help = help;
+    this.bounds = bounds;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.values.get(key);
+    if (!series) {
+      series = { labels, counts: new Array(this.bounds.length).fill(0), sum: 0, count: 0 };
+      this.values.set(key, series);
+    }
+
+    const bucket = this.bounds.findIndex(bound => value <= bound);
+    if (bucket !== -1) series.counts[bucket]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  collect(): MetricFamily {
+    const series = Array.from(this.values.values(), ({ labels, counts, sum, count }) => {
+      let cumulative = 0;
+      const buckets = this.bounds.map((bound, i) => ({ le: String(bound), count: (cumulative += counts[i]) }));
+      buckets.push({ le: '+Inf', count });
+      return { labels, buckets, sum, count };
+    });
+    return { name: this.name, help: this.help, type: 'histogram', series };
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Array<ScalarMetric | Histogram> = [];
+
+  counter(name: string, help: string, collector?: Collector): ScalarMetric {
+    return this.register(new ScalarMetric(name, help, 'counter', collector));
+  }
+
+  gauge(name: string, help: string, collector?: Collector): ScalarMetric {
+    return this.register(new ScalarMetric(name, help, 'gauge', collector));
+  }
+
+  histogram(name: string, help: string, bounds: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, bounds));
+  }
+
+  collect(): MetricFamily[] {
+    return this.metrics.map(metric => metric.collect());
+  }
+
+  /**
+   * Prometheus text exposition format, version 0.0.4
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    for (const family of this.collect()) {
+      lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${family.name} ${family.type}`);
+
+      for (const series of family.series) {
+        if (family.type !== 'histogram') {
+          lines.push(`${family.name}${formatLabels(series.labels)} ${series.value}`);
+          continue;
+        }
+        for (const bucket of series.buckets!) {
+          lines.push(`${family.name}_bucket${formatLabels({ ...series.labels, le: bucket.le })} ${bucket.count}`);
+        }
+        lines.push(`${family.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+        lines.push(`${family.name}_count${formatLabels(series.labels)} ${series.count}`);
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<T extends ScalarMetric | Histogram>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+const registry = new MetricsRegistry();
+
+// Compressions, recorded by the pipeline
+const compressions = registry.counter('pixelpress_compressions_total', 'Compressions by output format, mode and outcome (success, error or cancelled)');
+const exactMatches = registry.counter('pixelpress_exact_matches_total', 'Compressions that landed exactly on the target size');
+const duration = registry.histogram('pixelpress_compression_duration_seconds', 'Compressor processing time', METRICS_CONFIG.durationBuckets);
+const iterations = registry.histogram('pixelpress_compression_iterations', 'Encodes spent per compression', METRICS_CONFIG.iterationBuckets);
+const outputSize = registry.histogram('pixelpress_compression_output_bytes', 'Size of the compressed output', METRICS_CONFIG.outputSizeBuckets);
+
+// Job slots
+registry.gauge('pixelpress_active_jobs', 'Compressions holding a job slot', () => ResourceManager.getStats().activeJobs);
+registry.gauge('pixelpress_waiting_jobs', 'Batch and srcset compressions waiting for a job slot', () => ResourceManager.getStats().queuedJobs);
+registry.gauge('pixelpress_max_concurrent_jobs', 'Job slots available', () => ResourceManager.getStats().maxConcurrentJobs);
+registry.counter('pixelpress_jobs_started_total', 'Compressions that took a job slot', () => ResourceManager.getStats().totalJobsProcessed);
+
+// Result cache
+registry.counter('pixelpress_cache_hits_total', 'Result cache hits', () => compressionCache.getStats().hitCount);
+registry.counter('pixelpress_cache_misses_total', 'Result cache misses', () => compressionCache.getStats().missCount);
+registry.counter('pixelpress_cache_errors_total', 'Result cache backend failures', () => compressionCache.getStats().errorCount);
+registry.gauge('pixelpress_cache_entries', 'Entries in the result cache', () => compressionCache.getStats().size);
+registry.gauge('pixelpress_cache_bytes', 'Bytes held by the result cache', () => compressionCache.getStats().bytes);
+
+// Encode pool
+registry.gauge('pixelpress_encode_workers', 'Encode worker threads running', () => encodePool.getStats().workers);
+registry.gauge('pixelpress_encode_busy_workers', 'Encode worker threads running an encode', () => encodePool.getStats().busyWorkers);
+registry.gauge('pixelpress_encode_queue_length', 'Encodes waiting for a worker', () => encodePool.getStats().queueLength);
+registry.counter('pixelpress_encodes_completed_total', 'Encodes finished by the pool', () => encodePool.getStats().completed);
+registry.counter('pixelpress_encodes_cancelled_total', 'Encodes cancelled before finishing', () => encodePool.getStats().cancelled);
+registry.counter('pixelpress_encode_memory_limit_hits_total', 'Jobs cancelled for passing the per-job memory limit, estimated or measured', () => encodePool.getStats().memoryLimitHits);
+registry.gauge('pixelpress_encode_job_memory_peak_bytes', 'Largest RSS growth measured for one job\'s running encodes', () => encodePool.getStats().peakJobMemory);
+
+// Process
+registry.gauge('process_resident_memory_bytes', 'Resident memory size', () => process.memoryUsage.rss());
+registry.gauge('process_max_resident_memory_bytes', 'Peak resident memory size', () => process.resourceUsage().maxRSS * 1024);
+registry.counter('process_cpu_seconds_total', 'User and system CPU time spent', () => {
+  const { user, system } = process.cpuUsage();
+  return (user + system) / 1e6;
+});
+
+// CPU time and wall clock at the last summary, for the usage between summaries
+let cpuSample = { cpu: process.cpuUsage(), time: Date.now(), usage: 0 };
+
+/**
+ * Records compression outcomes and produces the metrics endpoint's output
+ */
+export class ServerMetrics {
+  static recordResult(format: OutputFormat, mode: CompressionMode, result: CompressionResult): void {
+    const labels = { format, mode };
+    compressions.inc({ ...labels, outcome: 'success' });
+    if (result.exactMatch) exactMatches.inc(labels);
+    duration.observe(labels, result.processingTime / 1000);
+    iterations.observe(labels, result.iterations);
+    outputSize.observe(labels, result.size);
+  }
+
+  static recordFailure(format: OutputFormat, mode: CompressionMode, cancelled: boolean): void {
+    compressions.inc({ format, mode, outcome: cancelled ? 'cancelled' : 'error' });
+  }
+
+  /**
+   * Headline figures: cache hit rate and error rate since startup, peak RSS
+   * in bytes, and CPU use as a share of all cores since the previous summary
+   */
+  static summary(): ServerMetricsSummary {
+    const outcomes = compressions.collect().series.reduce<Record<string, number>>((totals, series) => {
+      totals[series.labels.outcome] = (totals[series.labels.outcome] ?? 0) + series.value!;
+      return totals;
+    }, {});
+    const finished = (outcomes.success ?? 0) + (outcomes.error ?? 0);
+
+    const now = Date.now();
+    if (now - cpuSample.time >= METRICS_CONFIG.cpuSampleInterval) {
+      const cpu = process.cpuUsage(cpuSample.cpu);
+      const usage = (cpu.user + cpu.system) / 1000 / (now - cpuSample.time) / os.cpus().length;
+      cpuSample = { cpu: process.cpuUsage(), time: now, usage: Math.min(1, usage) };
+    }
+
+    return {
+      queueLength: encodePool.getStats().queueLength,
+      activeJobs: ResourceManager.getStats().activeJobs,
+      cacheHitRate: compressionCache.getStats().hitRate,
+      errorRate: finished > 0 ? (outcomes.error ?? 0) / finished : 0,
+      memoryPeak: process.resourceUsage().maxRSS * 1024,
+      cpuUsage: cpuSample.usage,
+    };
+  }
+
+  static snapshot(): MetricsSnapshot {
+    return { timestamp: Date.now(), summary: this.summary(), metrics: registry.collect() };
+  }
+
+  static toPrometheus(): string {
+    return registry.toPrometheus();
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Container-level padding that grows an encoded image to an exact byte count
+ * without touching the coded image data
+ */
+
+import { OutputFormat, PaddingStrategy } from './types';
+import { crc32 } from './crc32';
+
+// Smallest amount of padding each container can carry
+const MIN_PADDING: Record<OutputFormat, number> = {
+  webp: 8, // Empty RIFF chunk header
+  avif: 8, // Empty free box header
+  jpeg: 4, // Empty COM segment
+  png: 12, // Empty chunk: length, type and CRC
+  jxl: Infinity, // No padding mechanism for the bare codestream
+};
+
+const STRATEGIES: Record<Exclude<OutputFormat, 'jxl'>, PaddingStrategy> = {
+  webp: 'webp-riff-chunk',
+  avif: 'avif-free-box',
+  jpeg: 'jpeg-com-segment',
+  png: 'png-private-chunk',
+};
+
+// RIFF's conventional filler chunk, skipped by WebP decoders as unknown
+const WEBP_CHUNK = 'JUNK';
+// Ancillary, private, safe-to-copy PNG chunk type
+const PNG_CHUNK = 'paDd';
+// Largest COM segment: marker plus a 16-bit length that counts itself
+const JPEG_MAX_SEGMENT = 2 + 0xFFFF;
+
+export class ExactSizePadder {
+  /**
+   * Check whether a buffer of the given format can grow by exactly `bytes`
+   */
+  static canPad(format: OutputFormat, bytes: number): boolean {
+    if (bytes < MIN_PADDING[format]) {
+      return false;
+    }
+    // RIFF chunks are word aligned, so a WebP file can only grow by even amounts
+    return format !== 'webp' || bytes % 2 === 0;
+  }
+
+  /**
+   * Grow an encoded image to exactly targetSize bytes
+   */
+  static pad(buffer: Buffer, format: OutputFormat, targetSize: number): { buffer: Buffer; strategy: PaddingStrategy } {
+    const bytes = targetSize - buffer.length;
+    if (format === 'jxl' || !this.canPad(format, bytes)) {
+      throw new Error(`Cannot pad ${format} output by ${bytes} bytes`);
+    }
+
+    let padded: Buffer;
+    switch (format) {
+      case 'webp':
+        padded = this.padWebP(buffer, bytes);
+        break;
+      case 'avif':
+        padded = this.padAVIF(buffer, bytes);
+        break;
+      case 'jpeg':
+        padded = this.padJPEG(buffer, bytes);
+        break;
+      case 'png':
+        padded = this.padPNG(buffer, bytes);
+        break;
+    }
+
+    if (padded.length !== targetSize) {
+      throw new Error(`Padding produced ${padded.length} bytes instead of ${targetSize}`);
+    }
+
+    return { buffer: padded, strategy: STRATEGIES[format] };
+  }
+
+  /**
+   * Append a filler chunk and update the RIFF size
+   */
+  private static padWebP(buffer: Buffer, bytes: number): Buffer {
+    const chunk = Buffer.alloc(bytes);
+    chunk.write(WEBP_CHUNK, 0, 'latin1');
+    chunk.writeUInt32LE(bytes - 8, 4);
+
+    const padded = Buffer.concat([buffer, chunk]);
+    padded.writeUInt32LE(padded.length - 8, 4);
+    return padded;
+  }
+
+  /**
+   * Append a top-level free box, which readers skip by definition
+   */
+  private static padAVIF(buffer: Buffer, bytes: number): Buffer {
+    const box = Buffer.alloc(bytes);
+    box.writeUInt32BE(bytes, 0);
+    box.write('free', 4, 'latin1');
+    return Buffer.concat([buffer, box]);
+  }
+
+  /**
+   * Insert COM segments after the leading APPn segments, so JFIF/EXIF
+   * headers stay where readers expect them
+   */
+  private static padJPEG(buffer: Buffer, bytes: number): Buffer {
+    let offset = 2; // After SOI
+    while (
+      offset + 4 <= buffer.length &&
+      buffer[offset] === 0xFF &&
+      buffer[offset + 1] >= 0xE0 && buffer[offset + 1] <= 0xEF
+    ) {
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+
+    const segments: Buffer[] = [];
+    let remaining = bytes;
+    while (remaining > 0) {
+      let size = Math.min(remaining, JPEG_MAX_SEGMENT);
+      if (remaining - size > 0 && remaining - size < MIN_PADDING.jpeg) {
+        // Leave enough for a final segment
+        size = remaining - MIN_PADDING.jpeg;
+      }
+
+      const segment = Buffer.alloc(size);
+      segment[0] = 0xFF;
+      segment[1] = 0xFE;
+      segment.writeUInt16BE(size - 2, 2);
+      segments.push(segment);
+      remaining -= size;
+    }
+
+    return Buffer.concat([buffer.subarray(0, offset), ...segments, buffer.subarray(offset)]);
+  }
+
+  /**
+   * Insert a private ancillary chunk just before IEND
+   */
+  private static padPNG(buffer: Buffer, bytes: number): Buffer {
+    const iend = buffer.length - 12;
+    if (buffer.toString('latin1', iend + 4, iend + 8) !== 'IEND') {
+      throw new Error('PNG output does not end with IEND');
+    }
+
+    const chunk = Buffer.alloc(bytes);
+    chunk.writeUInt32BE(bytes - 12, 0);
+    chunk.write(PNG_CHUNK, 4, 'latin1');
+    chunk.writeUInt32BE(crc32(chunk.subarray(4, bytes - 4)), bytes - 4);
+
+    return Buffer.concat([buffer.subarray(0, iend), chunk, buffer.subarray(iend)]);
+  }
+}
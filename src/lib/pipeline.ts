@@ -0,0 +1,76 @@
+/**
+ * Single-image compression pipeline shared by the API routes
+ */
+
+import { OutputFormat, CompressionMode, CompressionOptions, CompressionResult, ImageMetadata } from './types';
+import { COMPRESSION_CONFIG } from './config';
+import { AdaptiveHeuristicsEngine } from './heuristics';
+import { ImageEncoder } from './encoder';
+import { ParallelCompressor } from './compressor';
+import { ImageFeatureExtractor } from './features';
+import { qualityPredictor } from './quality-model';
+import { logger } from './logger';
+import { ServerMetrics } from './metrics';
+
+export class CompressionPipeline {
+  /**
+   * Extract metadata and content features, derive heuristics and run the
+   * parallel compressor, then record the outcome for the quality model
+   */
+  static async run(
+    inputBuffer: Buffer,
+    format: OutputFormat,
+    mode: CompressionMode,
+    options: CompressionOptions = {}
+  ): Promise<{ result: CompressionResult; metadata: ImageMetadata }> {
+    const log = logger.child({ requestId: options.requestId });
+    const encoder = new ImageEncoder(log);
+    const metadata = await encoder.extractMetadata(inputBuffer);
+    metadata.features = await new ImageFeatureExtractor().extract(inputBuffer);
+
+    const targetBytes = options.targetBytes ?? COMPRESSION_CONFIG.targetBytes;
+    const output = await encoder.computeOutputSize(inputBuffer, 1, options.resize) ?? metadata;
+    const heuristicsEngine = new AdaptiveHeuristicsEngine(await qualityPredictor.current(), log);
+    const heuristics = heuristicsEngine.generateHeuristics(metadata, {
+      format,
+      targetBytes,
+      width: output.width,
+      height: output.height,
+    });
+    metadata.complexity = heuristics.imageComplexity;
+
+    const compressor = new ParallelCompressor(mode, heuristics, options);
+    let result: CompressionResult;
+    try {
+      result = await compressor.compress(inputBuffer, format);
+    } catch (error) {
+      ServerMetrics.recordFailure(format, mode, options.signal?.aborted ?? false);
+      throw error;
+    }
+    ServerMetrics.recordResult(format, mode, result);
+
+    // Only results that met the budget at full scale reflect the quality the
+    // budget alone settles on
+    const metTarget = Math.abs(result.size - result.targetBytes) <= result.tolerance;
+    if (metTarget && (result.scaleFactor ?? 1) >= 1 && !result.paletteReduced && !result.ssimFloorLimited) {
+      void qualityPredictor.record({
+        format,
+        targetBytes,
+        width: result.dimensions.width,
+        height: result.dimensions.height,
+        hasAlpha: metadata.hasAlpha,
+        features: metadata.features,
+        mode,
+        quality: result.quality,
+        size: result.size,
+        inputWidth: metadata.width,
+        inputHeight: metadata.height,
+        inputSize: metadata.size,
+        channels: metadata.channels,
+        recordedAt: Date.now(),
+      });
+    }
+
+    return { result, metadata };
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Learned starting-quality predictor, fitted to completed compressions
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { OutputFormat, QualityModelInput, QualitySample, QualityModelFile, FormatQualityModel, QualityEvaluation, PredictionError } from './types';
+import { QUALITY_MODEL_CONFIG } from './config';
+import { logger } from './logger';
+
+const MODEL_VERSION = 1;
+
+/**
+ * Per-format ridge regression of final quality on budget and content features
+ */
+export class QualityRegression {
+  /**
+   * Regression inputs: intercept, log bits per pixel (and its square, since
+   * quality flattens out at generous budgets), then the content features
+   */
+  static vectorize(input: QualityModelInput): number[] {
+    const bitsPerPixel = (input.targetBytes * 8) / Math.max(1, input.width * input.height);
+    const logBpp = Math.log2(Math.max(1e-4, bitsPerPixel));
+    const { features } = input;
+
+    return [
+      1,
+      logBpp,
+      logBpp * logBpp,
+      features.edgeDensity,
+      features.entropy / 8,
+      Math.log2(Math.max(1, features.colorCount)) / 24,
+      Math.min(2, features.noise / 8),
+      input.hasAlpha ? 1 : 0,
+    ];
+  }
+
+  /**
+   * Fit one model per format that has enough samples
+   */
+  static fit(samples: QualitySample[]): QualityModelFile {
+    const byFormat = new Map<OutputFormat, QualitySample[]>();
+    for (const sample of samples) {
+      byFormat.set(sample.format, [...(byFormat.get(sample.format) ?? []), sample]);
+    }
+
+    const formats: QualityModelFile['formats'] = {};
+    for (const [format, formatSamples] of byFormat) {
+      if (formatSamples.length < QUALITY_MODEL_CONFIG.minSamples) continue;
+      formats[format] = this.fitFormat(formatSamples);
+    }
+
+    return { version: MODEL_VERSION, trainedAt: Date.now(), formats };
+  }
+
+  /**
+   * Predicted quality, or null when the format has no fitted model
+   */
+  static predict(model: QualityModelFile, input: QualityModelInput): number | null {
+    const formatModel = model.formats[input.format];
+    if (!formatModel) {
+      return null;
+    }
+
+    const x = this.vectorize(input);
+    const quality = x.reduce((sum, value, i) => sum + value * formatModel.weights[i], 0);
+    return Math.max(1, Math.min(100, Math.round(quality)));
+  }
+
+  /**
+   * Train on the oldest samples and score the newest holdout share, per
+   * format, against an optional baseline estimator
+   */
+  static evaluate(
+    samples: QualitySample[],
+    baseline?: (sample: QualitySample) => number
+  ): QualityEvaluation[] {
+    const ordered = [...samples].sort((a, b) => a.recordedAt - b.recordedAt);
+    const formats = Array.from(new Set(ordered.map(sample => sample.format)));
+
+    return formats.map(format => {
+      const formatSamples = ordered.filter(sample => sample.format === format);
+      const split = Math.floor(formatSamples.length * (1 - QUALITY_MODEL_CONFIG.holdoutFraction));
+      const train = formatSamples.slice(0, split);
+      const test = formatSamples.slice(split);
+      const model = this.fit(train);
+
+      const modelErrors: number[] = [];
+      const baselineErrors: number[] = [];
+      for (const sample of test) {
+        const predicted = this.predict(model, sample);
+        if (predicted !== null) modelErrors.push(predicted - sample.quality);
+        if (baseline) baselineErrors.push(baseline(sample) - sample.quality);
+      }
+
+      return {
+        format,
+        train: train.length,
+        test: test.length,
+        model: modelErrors.length > 0 ? this.errorStats(modelErrors) : null,
+        baseline: baselineErrors.length > 0 ? this.errorStats(baselineErrors) : null,
+      };
+    });
+  }
+
+  private static errorStats(errors: number[]): PredictionError {
+    return {
+      meanAbsoluteError: errors.reduce((sum, e) => sum + Math.abs(e), 0) / errors.length,
+      rootMeanSquareError: Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length),
+    };
+  }
+
+  private static fitFormat(samples: QualitySample[]): FormatQualityModel {
+    const rows = samples.map(sample => this.vectorize(sample));
+    const n = rows[0].length;
+
+    // Normal equations (XᵀX + λI)w = Xᵀy, leaving the intercept unpenalised
+    const a = Array.from({ length: n }, (_, i) =>
+      Array.from({ length: n }, (_, j) => (i === j && i > 0 ? QUALITY_MODEL_CONFIG.ridge : 0))
+    );
+    const b = new Array<number>(n).fill(0);
+    rows.forEach((x, r) => {
+      for (let i = 0; i < n; i++) {
+        b[i] += x[i] * samples[r].quality;
+        for (let j = 0; j < n; j++) {
+          a[i][j] += x[i] * x[j];
+        }
+      }
+    });
+
+    const weights = this.solve(a, b);
+    const meanAbsoluteError = rows.reduce((sum, x, r) => {
+      const predicted = x.reduce((total, value, i) => total + value * weights[i], 0);
+      return sum + Math.abs(predicted - samples[r].quality);
+    }, 0) / rows.length;
+
+    return { weights, samples: samples.length, meanAbsoluteError };
+  }
+
+  /**
+   * Gaussian elimination with partial pivoting; the ridge term keeps the
+   * system well conditioned
+   */
+  private static solve(a: number[][], b: number[]): number[] {
+    const n = b.length;
+    const m = a.map((row, i) => [...row, b[i]]);
+
+    for (let col = 0; col < n; col++) {
+      let pivot = col;
+      for (let row = col + 1; row < n; row++) {
+        if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+      }
+      [m[col], m[pivot]] = [m[pivot], m[col]];
+      if (Math.abs(m[col][col]) < 1e-12) continue;
+
+      for (let row = col + 1; row < n; row++) {
+        const factor = m[row][col] / m[col][col];
+        for (let k = col; k <= n; k++) {
+          m[row][k] -= factor * m[col][k];
+        }
+      }
+    }
+
+    const weights = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+      if (Math.abs(m[row][row]) < 1e-12) continue;
+      let sum = m[row][n];
+      for (let k = row + 1; k < n; k++) {
+        sum -= m[row][k] * weights[k];
+      }
+      weights[row] = sum / m[row][row];
+    }
+    return weights;
+  }
+}
+
+/**
+ * Sample log and fitted model kept in a local directory. The model file is
+ * re-read when it changes, so a model trained offline is picked up without a
+ * restart. Recording never fails a compression; write errors are only logged.
+ */
+export class QualityPredictor {
+  private directory: string;
+  private model: QualityModelFile | null = null;
+  private modelModified = 0;
+  private checkedAt = 0;
+  private reloading: Promise<void> | null = null;
+  private unfitted = 0;
+  private refitting: Promise<void> = Promise.resolve();
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * The current model, or null while it is cold
+   */
+  async current(): Promise<QualityModelFile | null> {
+    this.reloading ??= this.reload().finally(() => {
+      this.reloading = null;
+    });
+    await this.reloading;
+    return this.model;
+  }
+
+  /**
+   * Append a completed compression and refit once enough new samples arrived
+   */
+  async record(sample: QualitySample): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(this.samplesPath(), `${JSON.stringify(sample)}\n`);
+    } catch (error) {
+      logger.warn('Failed to record quality sample', error, undefined, 'QUALITY_MODEL');
+      return;
+    }
+
+    if (++this.unfitted >= QUALITY_MODEL_CONFIG.refitInterval) {
+      this.unfitted = 0;
+      this.refitting = this.refitting
+        .then(() => this.refit())
+        .then(() => undefined, error => {
+          logger.warn('Quality model refit failed', error, undefined, 'QUALITY_MODEL');
+        });
+    }
+  }
+
+  /**
+   * Read the most recent recorded samples, skipping unparseable lines
+   */
+  async samples(): Promise<QualitySample[]> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.samplesPath(), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const samples: QualitySample[] = [];
+    for (const line of data.split('\n')) {
+      if (!line) continue;
+      try {
+        samples.push(JSON.parse(line));
+      } catch (error) {
+        // Partially written line from a crash
+      }
+    }
+    return samples.slice(-QUALITY_MODEL_CONFIG.maxSamples);
+  }
+
+  /**
+   * Fit on the recorded samples and persist the model
+   */
+  async refit(): Promise<QualityModelFile> {
+    const model = QualityRegression.fit(await this.samples());
+    await this.save(model);
+    this.model = model;
+
+    const summary = Object.entries(model.formats)
+      .map(([format, m]) => `${format}: n=${m!.samples}, mae=${m!.meanAbsoluteError.toFixed(1)}`)
+      .join('; ');
+    logger.info(`Quality model refitted (${summary || 'no format has enough samples'})`, null, undefined, 'QUALITY_MODEL');
+    return model;
+  }
+
+  /**
+   * Re-read the model file if it changed since the last check. A file that
+   * fails to parse keeps the previous model in place.
+   */
+  private async reload(): Promise<void> {
+    if (Date.now() - this.checkedAt < QUALITY_MODEL_CONFIG.reloadInterval) return;
+    this.checkedAt = Date.now();
+
+    try {
+      const { mtimeMs } = await fs.stat(this.modelPath());
+      if (mtimeMs === this.modelModified) return;
+
+      const model: QualityModelFile = JSON.parse(await fs.readFile(this.modelPath(), 'utf8'));
+      this.model = model.version === MODEL_VERSION ? model : null;
+      this.modelModified = mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.model = null;
+        this.modelModified = 0;
+        return;
+      }
+      logger.warn('Failed to load quality model, keeping the current one', error, undefined, 'QUALITY_MODEL');
+    }
+  }
+
+  private async save(model: QualityModelFile): Promise<void> {
+    const file = this.modelPath();
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(model));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  private samplesPath(): string {
+    return path.join(this.directory, 'samples.jsonl');
+  }
+
+  private modelPath(): string {
+    return path.join(this.directory, 'model.json');
+  }
+}
+
+export const qualityPredictor = new QualityPredictor(
+  QUALITY_MODEL_CONFIG.directory || path.join(os.tmpdir(), 'pixelpress-quality')
+);
@@ -0,0 +1,87 @@
+/**
+ * Perceptual quality scoring computed locally on decoded pixels
+ */
+
+import { SSIM_CONFIG } from './config';
+import { ImageEncoder } from './encoder';
+
+// Stabilising constants from the original SSIM paper for 8-bit pixels
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+interface DecodedImage {
+  pixels: Buffer;
+  width: number;
+  height: number;
+}
+
+export class SSIMScorer {
+  private encoder = new ImageEncoder();
+  private referenceBuffer: Buffer;
+  private reference: Promise<DecodedImage> | null = null;
+
+  constructor(referenceBuffer: Buffer) {
+    this.referenceBuffer = referenceBuffer;
+  }
+
+  /**
+   * Score a candidate against the reference, from 0 (unrelated) to 1 (identical).
+   * Scaled candidates are stretched back to the reference geometry first, so
+   * the lost detail counts against them.
+   */
+  async score(candidate: Buffer): Promise<number> {
+    if (!this.reference) {
+      this.reference = this.encoder.decodeGreyscale(this.referenceBuffer, { maxSize: SSIM_CONFIG.analysisSize });
+    }
+
+    const reference = await this.reference;
+    const decoded = await this.encoder.decodeGreyscale(candidate, {
+      width: reference.width,
+      height: reference.height,
+    });
+
+    return this.computeSSIM(reference, decoded.pixels);
+  }
+
+  /**
+   * Mean SSIM over overlapping square windows
+   */
+  private computeSSIM(reference: DecodedImage, pixels: Buffer): number {
+    const { width, height } = reference;
+    const size = Math.min(SSIM_CONFIG.windowSize, width, height);
+    const count = size * size;
+    let total = 0;
+    let windows = 0;
+
+    for (let y = 0; y + size <= height; y += SSIM_CONFIG.windowStride) {
+      for (let x = 0; x + size <= width; x += SSIM_CONFIG.windowStride) {
+        let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+
+        for (let wy = 0; wy < size; wy++) {
+          const row = (y + wy) * width + x;
+          for (let wx = 0; wx < size; wx++) {
+            const a = reference.pixels[row + wx];
+            const b = pixels[row + wx];
+            sumA += a;
+            sumB += b;
+            sumAA += a * a;
+            sumBB += b * b;
+            sumAB += a * b;
+          }
+        }
+
+        const meanA = sumA / count;
+        const meanB = sumB / count;
+        const varA = sumAA / count - meanA * meanA;
+        const varB = sumBB / count - meanB * meanB;
+        const covariance = sumAB / count - meanA * meanB;
+
+        total += ((2 * meanA * meanB + C1) * (2 * covariance + C2)) /
+          ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+        windows++;
+      }
+    }
+
+    return windows > 0 ? total / windows : 1;
+  }
+}
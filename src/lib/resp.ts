@@ -0,0 +1,182 @@
+/**
+ * Minimal Redis protocol (RESP2) client over a single pipelined connection
+ */
+
+import net from 'net';
+
+export type RespValue = string | number | Buffer | null | RespValue[];
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+// A reply still arriving; the parser waits for more data
+const INCOMPLETE = Symbol('incomplete');
+
+export class RespClient {
+  private host: string;
+  private port: number;
+  private password?: string;
+  private database: number;
+  private timeout: number;
+  private socket: net.Socket | null = null;
+  private pending: PendingReply[] = [];
+  private received: Buffer = Buffer.alloc(0);
+
+  /**
+   * @param url redis://[:password@]host[:port][/db]
+   */
+  constructor(url: string, timeout: number) {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'redis:') {
+      throw new Error(`Unsupported Redis URL: ${url}`);
+    }
+    this.host = parsed.hostname || '127.0.0.1';
+    this.port = Number(parsed.port) || 6379;
+    this.password = parsed.password ? decodeURIComponent(parsed.password) : undefined;
+    this.database = Number(parsed.pathname.slice(1)) || 0;
+    this.timeout = timeout;
+  }
+
+  /**
+   * Send one command and resolve with its reply. Error replies reject.
+   */
+  command(args: (string | number | Buffer)[]): Promise<RespValue> {
+    if (!this.socket) {
+      this.connect();
+    }
+    return this.send(args);
+  }
+
+  close(): void {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  /**
+   * Open the connection, queueing AUTH and SELECT ahead of any command
+   */
+  private connect(): void {
+    const socket = net.createConnection({ host: this.host, port: this.port });
+    socket.setNoDelay(true);
+    socket.setTimeout(this.timeout);
+    socket.unref();
+    this.socket = socket;
+    this.received = Buffer.alloc(0);
+
+    socket.on('data', data => this.receive(data));
+    socket.on('timeout', () => {
+      // Idle connections stay open; only a stalled reply is fatal
+      if (this.pending.length > 0) {
+        socket.destroy(new Error(`Redis at ${this.host}:${this.port} timed out`));
+      }
+    });
+    socket.on('error', error => this.fail(socket, error));
+    socket.on('close', () => this.fail(socket, new Error('Redis connection closed')));
+
+    // Failures surface on the command that triggered the connection
+    if (this.password) {
+      this.send(['AUTH', this.password]).catch(() => undefined);
+    }
+    if (this.database) {
+      this.send(['SELECT', this.database]).catch(() => undefined);
+    }
+  }
+
+  private send(args: (string | number | Buffer)[]): Promise<RespValue> {
+    const socket = this.socket!;
+    const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+    for (const arg of args) {
+      const data = Buffer.isBuffer(arg) ? arg : Buffer.from(String(arg));
+      parts.push(Buffer.from(`$${data.length}\r\n`), data, Buffer.from('\r\n'));
+    }
+
+    return new Promise<RespValue>((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.ref(); // Keep the process alive until the reply arrives
+      socket.write(Buffer.concat(parts));
+    });
+  }
+
+  private receive(data: Buffer): void {
+    this.received = this.received.length > 0 ? Buffer.concat([this.received, data]) : data;
+
+    while (this.pending.length > 0) {
+      let reply: { value: RespValue | Error; end: number } | typeof INCOMPLETE;
+      try {
+        reply = this.parse(this.received, 0);
+      } catch (error) {
+        this.socket?.destroy(error as Error);
+        return;
+      }
+      if (reply === INCOMPLETE) break;
+
+      this.received = this.received.subarray(reply.end);
+      const pending = this.pending.shift()!;
+      if (reply.value instanceof Error) {
+        pending.reject(reply.value);
+      } else {
+        pending.resolve(reply.value);
+      }
+    }
+
+    if (this.pending.length === 0) {
+      this.socket?.unref();
+    }
+  }
+
+  /**
+   * Parse one reply starting at offset
+   */
+  private parse(buffer: Buffer, offset: number): { value: RespValue | Error; end: number } | typeof INCOMPLETE {
+    const lineEnd = buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return INCOMPLETE;
+
+    const type = String.fromCharCode(buffer[offset]);
+    const line = buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { value: line, end: next };
+      case '-':
+        return { value: new Error(`Redis error: ${line}`), end: next };
+      case ':':
+        return { value: Number(line), end: next };
+      case '$': {
+        const length = Number(line);
+        if (length < 0) return { value: null, end: next };
+        if (buffer.length < next + length + 2) return INCOMPLETE;
+        return { value: Buffer.from(buffer.subarray(next, next + length)), end: next + length + 2 };
+      }
+      case '*': {
+        const count = Number(line);
+        if (count < 0) return { value: null, end: next };
+        const items: RespValue[] = [];
+        let end = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(buffer, end);
+          if (item === INCOMPLETE) return INCOMPLETE;
+          if (item.value instanceof Error) throw item.value;
+          items.push(item.value);
+          end = item.end;
+        }
+        return { value: items, end };
+      }
+      default:
+        throw new Error(`Unexpected Redis reply type: ${type}`);
+    }
+  }
+
+  /**
+   * Reject everything in flight; the next command reconnects
+   */
+  private fail(socket: net.Socket, error: Error): void {
+    if (this.socket !== socket) return;
+    this.socket = null;
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(reply => reply.reject(error));
+  }
+}
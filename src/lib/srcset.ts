@@ -0,0 +1,63 @@
+/**
+ * Responsive image markup for srcset variants
+ */
+
+import { OutputFormat, SrcsetVariant } from './types';
+import { SRCSET_CONFIG } from './config';
+
+export class PictureMarkupBuilder {
+  /**
+   * Build a <picture> element with one <source> per format, most efficient
+   * first, and an <img> whose src is the largest fallback-format variant.
+   * If every fallback variant failed, the <img> uses the last source format
+   * that has variants.
+   */
+  static build(variants: SrcsetVariant[], sizes: string, alt: string, fallbackFormat: OutputFormat): string {
+    const lines = ['<picture>'];
+    let lastSource: SrcsetVariant[] = [];
+
+    for (const format of SRCSET_CONFIG.formats) {
+      const ready = this.ready(variants, format);
+      if (ready.length === 0) continue;
+
+      lines.push(`  <source type="image/${format}" srcset="${this.escape(this.srcset(ready))}" sizes="${this.escape(sizes)}">`);
+      lastSource = ready;
+    }
+
+    const fallbacks = this.ready(variants, fallbackFormat);
+    const img = fallbacks.length > 0 ? fallbacks : lastSource;
+    if (img.length === 0) {
+      throw new Error('No variants to build markup from');
+    }
+
+    const largest = img[img.length - 1];
+    lines.push(
+      `  <img src="${this.escape(largest.filename!)}" srcset="${this.escape(this.srcset(img))}" sizes="${this.escape(sizes)}"` +
+      ` width="${largest.dimensions!.width}" height="${largest.dimensions!.height}"` +
+      ` alt="${this.escape(alt)}" loading="lazy" decoding="async">`
+    );
+    lines.push('</picture>');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Compressed variants of one format, narrowest first
+   */
+  private static ready(variants: SrcsetVariant[], format: OutputFormat): SrcsetVariant[] {
+    return variants
+      .filter(variant => variant.format === format && variant.status === 'ok' && variant.filename)
+      .sort((a, b) => a.dimensions!.width - b.dimensions!.width);
+  }
+
+  private static srcset(variants: SrcsetVariant[]): string {
+    return variants.map(variant => `${variant.filename} ${variant.dimensions!.width}w`).join(', ');
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
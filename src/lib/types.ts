@@ -2,8 +2,27 @@
  * Core types and interfaces for the Exact80 compression system
  */
 
-export type OutputFormat = 'webp' | 'avif';
+export type OutputFormat = 'webp' | 'avif' | 'jpeg' | 'png' | 'jxl';
+export type InputFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'heic' | 'gif' | 'tiff' | 'svg';
 export type CompressionMode = 'exact' | 'balanced';
+export type CompressionPhase = 'quality-test' | 'binary-search' | 'progressive-scaling';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Source colour space, identified from the decoder's interpretation and the
+// embedded ICC profile's description. RGB without a profile counts as sRGB.
+export type ColorSpace = 'srgb' | 'display-p3' | 'adobe-rgb' | 'prophoto' | 'rec2020' | 'other-rgb' | 'cmyk' | 'grey';
+
+// Output colour handling: convert everything to sRGB, or keep a wide-gamut
+// RGB source in its own space with its profile embedded
+export type ColorSpaceTarget = 'srgb' | 'preserve';
+
+// Content statistics from a downscaled decode
+export interface ImageFeatures {
+  edgeDensity: number; // Share of pixels on a strong luma edge, 0-1
+  entropy: number; // Shannon entropy of the luma histogram, 0-8 bits
+  colorCount: number; // Distinct RGB colours in the sample
+  noise: number; // Estimated noise standard deviation, in 8-bit levels
+}
 
 export interface ImageMetadata {
   width: number;
@@ -14,8 +33,18 @@ export interface ImageMetadata {
   density?: number;
   hasAlpha: boolean;
   complexity: number;
+  colorSpace: ColorSpace;
+  bitDepth: number;
+  iccProfile?: string; // Description of the embedded profile
+  features?: ImageFeatures;
 }
 
+// Container mechanism used to pad an encode up to an exact byte target
+export type PaddingStrategy = 'webp-riff-chunk' | 'avif-free-box' | 'jpeg-com-segment' | 'png-private-chunk';
+
+// How an exact match was reached: straight from the encoder, or by padding
+export type ExactStrategy = 'encoder' | PaddingStrategy;
+
 export interface CompressionResult {
   buffer: Buffer;
   quality: number;
@@ -24,13 +53,71 @@ export interface CompressionResult {
   exactMatch: boolean;
   iterations: number;
   mode: CompressionMode;
+  targetBytes: number;
+  tolerance: number;
   processingTime: number;
   scaleFactor?: number;
   paletteReduced?: boolean;
+  ssim?: number;
+  ssimFloorLimited?: boolean;
+  exactStrategy?: ExactStrategy;
+  paddingBytes?: number;
+  metadataBytes?: number;
+  sourceColorSpace?: ColorSpace;
+  sourceBitDepth?: number;
+  outputColorSpace?: ColorSpace;
   cacheHit?: boolean;
   parallelTests?: number;
 }
 
+export interface BatchManifestEntry {
+  source: string;
+  filename?: string;
+  status: 'ok' | 'error';
+  quality?: number;
+  size?: number;
+  exactMatch?: boolean;
+  exactStrategy?: ExactStrategy;
+  scaleFactor?: number;
+  ssim?: number;
+  ssimFloorLimited?: boolean;
+  iterations?: number;
+  processingTime?: number;
+  error?: string;
+}
+
+export interface SrcsetVariant {
+  width: number;
+  format: OutputFormat;
+  targetBytes: number;
+  status: 'ok' | 'skipped' | 'error';
+  filename?: string;
+  size?: number;
+  dimensions?: { width: number; height: number };
+  quality?: number;
+  exactMatch?: boolean;
+  ssim?: number;
+  processingTime?: number;
+  error?: string;
+}
+
+export interface CompressionJob {
+  id: string;
+  status: JobStatus;
+  sourceName: string;
+  inputSize: number;
+  format: OutputFormat;
+  mode: CompressionMode;
+  options: RequestOptions;
+  createdAt: number;
+  updatedAt: number;
+  progress?: CompressionProgress;
+  result?: Omit<CompressionResult, 'buffer'> & { filename: string };
+  error?: string;
+  owner?: string; // ID of the API key that submitted it
+  charge?: ApiKeyCharge; // Given back to the API key if the job fails
+}
+
 export interface CompressionMetrics {
   processingTime: number;
   iterationsUsed: number;
@@ -46,18 +133,198 @@ export interface CompressionMetrics {
   errorRate: number;
 }
 
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+// One labelled series of a metric. Histograms carry cumulative bucket
+// counts keyed by upper bound, Prometheus style ('+Inf' last).
+export interface MetricSeries {
+  labels: Record<string, string>;
+  value?: number;
+  buckets?: Array<{ le: string; count: number }>;
+  sum?: number;
+  count?: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  series: MetricSeries[];
+}
+
+// Server-wide figures behind the dashboard's CompressionMetrics fields
+export type ServerMetricsSummary = Pick<
+  CompressionMetrics,
+  'queueLength' | 'activeJobs' | 'cacheHitRate' | 'errorRate' | 'memoryPeak' | 'cpuUsage'
+>;
+
+export interface MetricsSnapshot {
+  timestamp: number;
+  summary: ServerMetricsSummary;
+  metrics: MetricFamily[];
+}
+
+// Outcome of the readiness self-test encode for one output format
+export interface CodecStatus {
+  format: OutputFormat;
+  available: boolean; // Whether the installed sharp can write the format at all
+  ok: boolean; // Unavailable codecs are reported but don't fail readiness
+  durationMs?: number;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'saturated' | 'degraded';
+  timestamp: number;
+  versions: { sharp: string; vips: string };
+  codecs: CodecStatus[];
+  jobs: { activeJobs: number; maxConcurrentJobs: number; queuedJobs: number; saturated: boolean };
+  encodePool: { busyWorkers: number; maxWorkers: number; queueLength: number; saturated: boolean };
+  cache: { entries: number | null; bytes: number | null }; // Null when the backend can't tell cheaply
+}
+
 export interface AdaptiveHeuristics {
   imageComplexity: number;
   estimatedQuality: number;
+  qualitySource: 'model' | 'formula';
   maxIterations: number;
   timeoutStrategy: 'aggressive' | 'conservative';
   parallelTests: number;
 }
 
+// What the learned quality model predicts from: the output format, the
+// budget and geometry of the output, and the source's content
+export interface QualityModelInput {
+  format: OutputFormat;
+  targetBytes: number;
+  width: number; // Output dimensions
+  height: number;
+  hasAlpha: boolean;
+  features: ImageFeatures;
+}
+
+// The request heuristics are generated for, as the learned model sees it
+export type HeuristicsTarget = Pick<QualityModelInput, 'format' | 'targetBytes' | 'width' | 'height'>;
+
+// A completed compression, recorded for training the quality model
+export interface QualitySample extends QualityModelInput {
+  mode: CompressionMode;
+  quality: number; // Quality the search settled on
+  size: number;
+  inputWidth: number;
+  inputHeight: number;
+  inputSize: number;
+  channels: number;
+  recordedAt: number;
+}
+
+// Ridge regression fitted per output format
+export interface FormatQualityModel {
+  weights: number[];
+  samples: number;
+  meanAbsoluteError: number; // On the training samples, in quality points
+}
+
+export interface QualityModelFile {
+  version: number;
+  trainedAt: number;
+  formats: Partial<Record<OutputFormat, FormatQualityModel>>;
+}
+
+export interface PredictionError {
+  meanAbsoluteError: number;
+  rootMeanSquareError: number;
+}
+
+// Holdout scores for one format, from the offline eval command
+export interface QualityEvaluation {
+  format: OutputFormat;
+  train: number;
+  test: number;
+  model: PredictionError | null; // Null while too few training samples
+  baseline: PredictionError | null;
+}
+
+export interface TargetOptions {
+  targetBytes: number;
+  tolerance: number;
+}
+
+// How the image is fitted to a requested box, following sharp's fit modes
+export type ResizeFit = 'cover' | 'contain' | 'inside';
+
+// Which part of the image cover/contain keeps in view; entropy and attention
+// pick the crop from the image content
+export type ResizeGravity =
+  | 'center' | 'north' | 'northeast' | 'east' | 'southeast'
+  | 'south' | 'southwest' | 'west' | 'northwest'
+  | 'entropy' | 'attention';
+
+export interface ResizeOptions {
+  width?: number;
+  height?: number;
+  fit: ResizeFit;
+  gravity: ResizeGravity;
+}
+
+export interface ResizePreset {
+  width?: number;
+  height?: number;
+  fit?: ResizeFit;
+  gravity?: ResizeGravity;
+  pixelRatio?: number; // Multiplies the requested width and height
+}
+
+// Which input metadata survives into the output. GPS and other EXIF
+// sub-IFDs are only kept by keep-all.
+export type MetadataPolicy = 'strip-all' | 'keep-icc' | 'keep-copyright' | 'keep-all' | 'allow-list';
+
+export interface MetadataOptions {
+  policy: MetadataPolicy;
+  allow?: string[]; // 'icc', 'xmp' and EXIF IFD0 text tag names, for allow-list
+}
+
+export interface RequestOptions extends TargetOptions {
+  minSSIM?: number;
+  resize?: ResizeOptions;
+  metadata?: MetadataOptions;
+  colorSpace?: ColorSpaceTarget;
+}
+
+export interface EncodeOptions {
+  scaleFactor?: number;
+  resize?: ResizeOptions;
+  metadata?: MetadataOptions;
+  colorSpace?: ColorSpaceTarget;
+  jobId?: string; // Encode pool memory accounting and cancellation
+  signal?: AbortSignal;
+}
+
+export interface CompressionOptions extends Partial<RequestOptions> {
+  maxWallTime?: number;
+  requestId?: string; // Stamped on every log entry of the compression
+  onProgress?: (progress: CompressionProgress) => void;
+  signal?: AbortSignal; // Aborts in-flight encodes and stops the search
+}
+
+export interface CompressionProgress {
+  phase: CompressionPhase;
+  iterations: number;
+  maxIterations: number;
+  quality?: number;
+  size?: number;
+  distanceToTarget?: number;
+  bestSize?: number;
+  bestQuality?: number;
+}
+
 export interface CompressionConfig {
   targetBytes: number;
+  minTargetBytes: number;
+  maxTargetBytes: number;
   toleranceBalanced: number;
   toleranceExact: number;
+  maxTolerance: number;
   maxFileSize: number;
   maxWallTimeBalanced: number;
   maxWallTimeExact: number;
@@ -84,13 +351,62 @@ export interface QualityTestResult {
   quality: number;
   size: number;
   buffer: Buffer;
+  ssim?: number;
 }
 
+// One test encode: kept, rejected by the perceptual floor, or failed in the encoder
+export type QualityTestOutcome =
+  | { status: 'ok'; result: QualityTestResult }
+  | { status: 'rejected' }
+  | { status: 'failed'; error: string };
+
 export interface ScalingResult {
   buffer: Buffer;
   quality: number;
   size: number;
+  ssim?: number;
   scaleFactor: number;
   iterations: number;
 }
 
+
+// One API key as kept in the key store. Only a SHA-256 hash of the secret
+// is stored; limits left out fall back to AUTH_CONFIG or to none.
+export interface ApiKeyRecord {
+  id: string; // Public identifier, safe to log
+  name?: string;
+  keyHash: string;
+  anonymous?: boolean; // Built per request for callers without a key, never stored
+  disabled?: boolean;
+  rateLimit?: { capacity: number; refillPerSecond: number }; // Token bucket, one token per request
+  dailyRequests?: number;
+  dailyBytes?: number; // Input bytes accepted per UTC day
+  allowedFormats?: OutputFormat[];
+  maxFileSize?: number; // Overrides COMPRESSION_CONFIG.maxFileSize in either direction
+}
+
+// Usage of one key over one UTC day (YYYY-MM-DD)
+export interface ApiKeyUsage {
+  day: string;
+  requests: number;
+  bytes: number;
+}
+
+// Usage counted against a key for one admitted request, kept so it can be
+// given back if the request is turned away or fails
+export interface ApiKeyCharge {
+  keyId: string;
+  day: string;
+  requests: number;
+  bytes: number;
+}
+
+// Outcome of an API key check; a refusal carries the status to answer with
+export interface ApiKeyCheck {
+  allowed: boolean;
+  key?: ApiKeyRecord; // A per-client anonymous key for requests without one
+  charge?: ApiKeyCharge;
+  status?: number;
+  error?: string;
+  retryAfter?: number; // Seconds
+}
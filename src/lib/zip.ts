@@ -0,0 +1,93 @@
+/**
+ * Minimal streaming ZIP writer for packaging compressed images
+ */
+
+import { crc32 } from './crc32';
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+
+  /**
+   * Add a file and return the bytes to stream for it. Entries are stored
+   * uncompressed since the payloads are already compressed images.
+   */
+  addFile(name: string, data: Buffer, modified: Date = new Date()): Buffer {
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const { time, date } = this.toDosDateTime(modified);
+    const entry: ZipEntry = {
+      name: nameBuffer,
+      crc: crc32(data),
+      size: data.length,
+      offset: this.offset,
+      time,
+      date,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034B50, 0); // Local file header signature
+    header.writeUInt16LE(20, 4); // Version needed to extract
+    header.writeUInt16LE(0x0800, 6); // UTF-8 filenames
+    header.writeUInt16LE(0, 8); // Stored
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.size, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(nameBuffer.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    const chunk = Buffer.concat([header, nameBuffer, data]);
+    this.entries.push(entry);
+    this.offset += chunk.length;
+    return chunk;
+  }
+
+  /**
+   * Return the central directory and end-of-archive record
+   */
+  finish(): Buffer {
+    const records = this.entries.map(entry => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014B50, 0); // Central directory signature
+      record.writeUInt16LE(20, 4); // Version made by
+      record.writeUInt16LE(20, 6); // Version needed to extract
+      record.writeUInt16LE(0x0800, 8);
+      record.writeUInt16LE(0, 10);
+      record.writeUInt16LE(entry.time, 12);
+      record.writeUInt16LE(entry.date, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.size, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    });
+
+    const directory = Buffer.concat(records);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054B50, 0); // End of central directory signature
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(this.offset, 16);
+
+    return Buffer.concat([directory, end]);
+  }
+
+  private toDosDateTime(date: Date): { time: number; date: number } {
+    return {
+      time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+      date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+  }
+}